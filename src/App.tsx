@@ -1,27 +1,55 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClient } from "@tanstack/react-query";
+import { PersistQueryClientProvider } from "@tanstack/react-query-persist-client";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import Audit from "./pages/Audit";
 import NotFound from "./pages/NotFound";
+import { createIndexedDbPersister } from "./lib/query-persister";
 
-const queryClient = new QueryClient();
+const CACHE_MAX_AGE_MS = 7 * 24 * 60 * 60_000;
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      // Keep cached data around at least as long as the persisted snapshot
+      gcTime: CACHE_MAX_AGE_MS,
+      staleTime: 30_000,
+    },
+  },
+});
+
+const persistOptions = {
+  persister: createIndexedDbPersister(),
+  maxAge: CACHE_MAX_AGE_MS,
+  // Bump when the shape of cached query data changes, or when older caches
+  // may hold state that never existed on GitHub (e.g. dry-run results)
+  buster: "5",
+};
 
 const App = () => (
-  <QueryClientProvider client={queryClient}>
+  <PersistQueryClientProvider
+    client={queryClient}
+    persistOptions={persistOptions}
+  >
     <TooltipProvider>
       <Toaster />
       <Sonner />
       <BrowserRouter>
         <Routes>
-          <Route path="/" element={<Index />} />
+          {/* Index stays mounted under /audit so unlocked tokens, dry runs
+              and pending deletions survive a visit to the audit log */}
+          <Route path="/" element={<Index />}>
+            <Route path="audit" element={<Audit />} />
+          </Route>
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
       </BrowserRouter>
     </TooltipProvider>
-  </QueryClientProvider>
+  </PersistQueryClientProvider>
 );
 
 export default App;
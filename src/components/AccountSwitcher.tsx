@@ -0,0 +1,114 @@
+import { Check, Clock, Lock, UserPlus, X } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { isEnterpriseHost } from "@/lib/github";
+import { getAccountId, type SavedAccount } from "@/lib/accounts";
+
+interface AccountSwitcherProps {
+  accounts: SavedAccount[];
+  /** Id of the active account, see getAccountId. */
+  active: string;
+  onSwitch: (accountId: string) => void;
+  onAdd: () => void;
+  onRemove: (accountId: string) => void;
+}
+
+export function AccountAvatar({
+  account,
+  className = "w-6 h-6",
+}: {
+  account: SavedAccount;
+  className?: string;
+}) {
+  return (
+    <Avatar className={`${className} border border-primary/20`}>
+      {account.avatarUrl && (
+        <AvatarImage src={account.avatarUrl} alt={account.username} />
+      )}
+      <AvatarFallback className="text-xs">
+        {account.username[0].toUpperCase()}
+      </AvatarFallback>
+    </Avatar>
+  );
+}
+
+export function AccountSwitcher({
+  accounts,
+  active,
+  onSwitch,
+  onAdd,
+  onRemove,
+}: AccountSwitcherProps) {
+  const activeAccount = accounts.find(
+    (account) => getAccountId(account) === active,
+  );
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="icon" aria-label="Switch account">
+          {activeAccount ? (
+            <AccountAvatar account={activeAccount} />
+          ) : (
+            <UserPlus className="h-5 w-5" />
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>Accounts</DropdownMenuLabel>
+        {accounts.map((account) => {
+          const id = getAccountId(account);
+          const isActive = id === active;
+          return (
+            <DropdownMenuItem
+              key={id}
+              onSelect={() => !isActive && onSwitch(id)}
+              className="gap-2"
+            >
+              <AccountAvatar account={account} />
+              <span className="min-w-0">
+                <span className="block truncate">{account.username}</span>
+                {isEnterpriseHost(account.apiBaseUrl) && (
+                  <span className="block truncate text-xs text-muted-foreground">
+                    {new URL(account.apiBaseUrl).host}
+                  </span>
+                )}
+              </span>
+              {account.mode === "vault" && (
+                <Lock className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
+              )}
+              {account.mode === "session" && (
+                <Clock className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
+              )}
+              {isActive && <Check className="w-4 h-4 shrink-0" />}
+              <button
+                type="button"
+                aria-label={`Remove ${account.username}`}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRemove(id);
+                }}
+                className="ml-auto rounded p-0.5 text-muted-foreground hover:text-destructive"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </DropdownMenuItem>
+          );
+        })}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={onAdd} className="gap-2">
+          <UserPlus className="w-4 h-4" />
+          Add account
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
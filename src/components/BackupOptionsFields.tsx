@@ -0,0 +1,75 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { ArchiveFormat, BackupOptions } from "@/lib/backup";
+
+interface BackupOptionsFieldsProps {
+  value: BackupOptions;
+  onChange: (value: BackupOptions) => void;
+  disabled?: boolean;
+}
+
+export function BackupOptionsFields({
+  value,
+  onChange,
+  disabled = false,
+}: BackupOptionsFieldsProps) {
+  return (
+    <div className="space-y-3 rounded-md border border-border/50 p-3">
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="backup-enabled"
+          checked={value.enabled}
+          disabled={disabled}
+          onCheckedChange={(checked) =>
+            onChange({ ...value, enabled: checked === true })
+          }
+        />
+        <Label htmlFor="backup-enabled" className="text-sm font-medium">
+          Back up first
+        </Label>
+      </div>
+      {value.enabled && (
+        <div className="space-y-3 pl-6">
+          <Select
+            value={value.format}
+            disabled={disabled}
+            onValueChange={(format) =>
+              onChange({ ...value, format: format as ArchiveFormat })
+            }
+          >
+            <SelectTrigger className="w-[160px] h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="zipball">ZIP archive</SelectItem>
+              <SelectItem value="tarball">Tarball (.tar.gz)</SelectItem>
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="backup-metadata"
+              checked={value.includeMetadata}
+              disabled={disabled}
+              onCheckedChange={(checked) =>
+                onChange({ ...value, includeMetadata: checked === true })
+              }
+            />
+            <Label htmlFor="backup-metadata" className="text-sm">
+              Include issues, releases and wiki metadata (JSON)
+            </Label>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            The repository is only deleted once the backup has downloaded.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useEffect, useState } from "react";
+import { CheckCircle2, Circle, Loader2, XCircle } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import type { Repository } from "@/lib/github";
+import { runTaskQueue, type TaskState } from "@/lib/task-queue";
+
+type DeletableRepo = Pick<Repository, "id" | "full_name">;
+
+interface BulkDeleteDialogProps<T extends DeletableRepo> {
+  repos: T[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onDeleteRepo: (repo: T) => Promise<void>;
+  onFinished: (deleted: T[]) => void;
+  children?: React.ReactNode;
+}
+
+const DELETE_CONCURRENCY = 4;
+
+export function BulkDeleteDialog<T extends DeletableRepo>({
+  repos,
+  open,
+  onOpenChange,
+  onDeleteRepo,
+  onFinished,
+  children,
+}: BulkDeleteDialogProps<T>) {
+  const [confirmation, setConfirmation] = useState("");
+  const [tasks, setTasks] = useState<TaskState<T>[]>([]);
+  const [running, setRunning] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setConfirmation("");
+      setTasks([]);
+    }
+  }, [open]);
+
+  const phrase = `delete ${repos.length} ${repos.length === 1 ? "repository" : "repositories"}`;
+  const finished = tasks.length > 0 && !running;
+  const succeeded = tasks.filter((t) => t.status === "succeeded");
+  const failed = tasks.filter((t) => t.status === "failed");
+  const completed = succeeded.length + failed.length;
+
+  // A retry only reports on the failed repositories; keep the others' state
+  const mergeTasks = (updates: TaskState<T>[]) =>
+    setTasks((prev) => {
+      if (prev.length === 0) return updates;
+      const byId = new Map(updates.map((task) => [task.item.id, task]));
+      return prev.map((task) => byId.get(task.item.id) ?? task);
+    });
+
+  const run = async (targets: T[]) => {
+    setRunning(true);
+    const results = await runTaskQueue(targets, onDeleteRepo, {
+      concurrency: DELETE_CONCURRENCY,
+      onUpdate: mergeTasks,
+    });
+    setRunning(false);
+    onFinished(
+      results.filter((t) => t.status === "succeeded").map((t) => t.item),
+    );
+  };
+
+  return (
+    <AlertDialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!running) onOpenChange(next);
+      }}
+    >
+      <AlertDialogContent className="max-w-lg">
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            {finished ? "Bulk delete finished" : "Delete selected repositories"}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {finished
+              ? `${succeeded.length} deleted, ${failed.length} failed.`
+              : tasks.length > 0
+                ? `Deleting ${completed} of ${tasks.length}...`
+                : "The following repositories will be permanently deleted right away. Bulk deletes have no undo window."}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {tasks.length > 0 && (
+          <Progress value={(completed / tasks.length) * 100} className="h-2" />
+        )}
+
+        <div className="max-h-64 overflow-y-auto rounded-md border border-border/50">
+          <ul className="p-3 space-y-1.5 text-sm">
+            {(tasks.length > 0
+              ? tasks
+              : repos.map((item) => ({ item, status: "pending" as const }))
+            ).map((task: TaskState<T>) => (
+              <li key={task.item.id} className="flex items-start gap-2">
+                {task.status === "running" ? (
+                  <Loader2 className="w-4 h-4 mt-0.5 animate-spin text-primary shrink-0" />
+                ) : task.status === "succeeded" ? (
+                  <CheckCircle2 className="w-4 h-4 mt-0.5 text-primary shrink-0" />
+                ) : task.status === "failed" ? (
+                  <XCircle className="w-4 h-4 mt-0.5 text-destructive shrink-0" />
+                ) : (
+                  <Circle className="w-4 h-4 mt-0.5 text-muted-foreground shrink-0" />
+                )}
+                <div className="min-w-0">
+                  <p className="font-mono truncate">{task.item.full_name}</p>
+                  {task.error && (
+                    <p className="text-xs text-destructive">{task.error}</p>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {tasks.length === 0 && children}
+
+        {tasks.length === 0 && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              Type <strong className="text-foreground">{phrase}</strong> to
+              confirm.
+            </p>
+            <Input
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              placeholder={phrase}
+              autoComplete="off"
+            />
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={running}>
+            {finished ? "Close" : "Cancel"}
+          </AlertDialogCancel>
+          {finished ? (
+            failed.length > 0 && (
+              <Button
+                onClick={() => run(failed.map((t) => t.item))}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Retry {failed.length} failed
+              </Button>
+            )
+          ) : (
+            <Button
+              onClick={() => run(repos)}
+              disabled={running || confirmation.trim() !== phrase}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {running ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                `Delete ${repos.length}`
+              )}
+            </Button>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,220 @@
+import { useEffect, useMemo, useState } from "react";
+import { ExternalLink, SlidersHorizontal, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Slider } from "@/components/ui/slider";
+import { canAdminister, type Repository } from "@/lib/github";
+import {
+  DEFAULT_STALENESS_WEIGHTS,
+  scoreRepository,
+  STALENESS_SIGNALS,
+  type StalenessContext,
+  type StalenessWeights,
+} from "@/lib/staleness";
+
+interface CleanupCandidatesProps {
+  repos: Repository[];
+  context?: StalenessContext;
+  selectedIds: Set<number>;
+  onSelectedChange: (repo: Repository, selected: boolean) => void;
+  /** Called with every ranked candidate, not just the visible ones. */
+  onSelectAll: (repos: Repository[]) => void;
+  onDelete: (repo: Repository) => void;
+  /** Why a repository is locked against deletion, or null. */
+  lockedReason?: (repo: Repository) => string | null;
+}
+
+const WEIGHTS_STORAGE_KEY = "staleness_weights";
+const PAGE_SIZE = 50;
+
+function loadWeights(): StalenessWeights {
+  try {
+    const stored = localStorage.getItem(WEIGHTS_STORAGE_KEY);
+    if (stored) return { ...DEFAULT_STALENESS_WEIGHTS, ...JSON.parse(stored) };
+  } catch {
+    // Corrupt value; fall back to defaults
+  }
+  return DEFAULT_STALENESS_WEIGHTS;
+}
+
+export function CleanupCandidates({
+  repos,
+  context,
+  selectedIds,
+  onSelectedChange,
+  onSelectAll,
+  onDelete,
+  lockedReason = () => null,
+}: CleanupCandidatesProps) {
+  const [weights, setWeights] = useState<StalenessWeights>(loadWeights);
+  const [minScore, setMinScore] = useState(40);
+  const [visible, setVisible] = useState(PAGE_SIZE);
+
+  useEffect(() => {
+    localStorage.setItem(WEIGHTS_STORAGE_KEY, JSON.stringify(weights));
+  }, [weights]);
+
+  const ranked = useMemo(
+    () =>
+      repos
+        .map((repo) => ({ repo, ...scoreRepository(repo, weights, context) }))
+        .filter((c) => c.score >= minScore)
+        .sort((a, b) => b.score - a.score),
+    [repos, weights, context, minScore],
+  );
+
+  return (
+    <div className="space-y-4">
+      <Collapsible>
+        <div className="flex flex-wrap items-center gap-3">
+          <p className="text-sm text-muted-foreground">
+            {ranked.length} of {repos.length} repositories score {minScore} or
+            higher
+          </p>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 text-xs"
+            disabled={ranked.length === 0}
+            onClick={() => onSelectAll(ranked.map((c) => c.repo))}
+          >
+            Select all {ranked.length} candidates
+          </Button>
+          <CollapsibleTrigger asChild>
+            <Button variant="outline" size="sm" className="h-8 gap-1.5">
+              <SlidersHorizontal className="w-3.5 h-3.5" />
+              Tune weights
+            </Button>
+          </CollapsibleTrigger>
+        </div>
+        <CollapsibleContent>
+          <Card className="mt-3 bg-card/50">
+            <CardContent className="pt-6 grid gap-5 sm:grid-cols-2">
+              <div className="space-y-2 sm:col-span-2">
+                <Label className="text-sm font-medium">
+                  Minimum score: {minScore}
+                </Label>
+                <Slider
+                  value={[minScore]}
+                  min={0}
+                  max={100}
+                  step={5}
+                  onValueChange={([value]) => setMinScore(value)}
+                />
+              </div>
+              {STALENESS_SIGNALS.map(({ signal, label }) => (
+                <div key={signal} className="space-y-2">
+                  <Label className="text-sm">
+                    {label}: {weights[signal]}
+                  </Label>
+                  <Slider
+                    value={[weights[signal]]}
+                    min={0}
+                    max={10}
+                    step={1}
+                    onValueChange={([value]) =>
+                      setWeights((prev) => ({ ...prev, [signal]: value }))
+                    }
+                  />
+                </div>
+              ))}
+              <div className="sm:col-span-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 text-xs"
+                  onClick={() => setWeights(DEFAULT_STALENESS_WEIGHTS)}
+                >
+                  Reset weights
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </CollapsibleContent>
+      </Collapsible>
+
+      <div className="space-y-2">
+        {ranked.slice(0, visible).map(({ repo, score, reasons }) => {
+          const locked = lockedReason(repo);
+          const canDelete = canAdminister(repo) && !locked;
+          return (
+            <Card key={repo.id} className="bg-card/50">
+              <CardContent className="p-4 flex items-start gap-3">
+                <Checkbox
+                  checked={selectedIds.has(repo.id)}
+                  disabled={!canDelete}
+                  onCheckedChange={(checked) =>
+                    onSelectedChange(repo, checked === true)
+                  }
+                  aria-label={`Select ${repo.full_name}`}
+                  className="mt-1 shrink-0"
+                />
+                <div className="flex-1 min-w-0 space-y-2">
+                  <div className="flex items-center gap-3">
+                    <a
+                      href={repo.html_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-medium hover:underline flex items-center gap-1.5 truncate"
+                    >
+                      {repo.full_name}
+                      <ExternalLink className="w-3.5 h-3.5 shrink-0" />
+                    </a>
+                    <span className="ml-auto text-sm font-semibold tabular-nums">
+                      {score}
+                    </span>
+                  </div>
+                  <Progress value={score} className="h-1.5" />
+                  <div className="flex flex-wrap gap-1.5">
+                    {reasons.map((reason) => (
+                      <Badge
+                        key={reason.signal}
+                        variant="outline"
+                        className="text-xs font-normal"
+                      >
+                        {reason.label}
+                        <span className="ml-1 text-muted-foreground">
+                          +{Math.round(reason.points * 10) / 10}
+                        </span>
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => onDelete(repo)}
+                  disabled={!canDelete}
+                  title={locked ?? undefined}
+                  className="hover:bg-destructive hover:text-destructive-foreground hover:border-destructive transition-all shrink-0"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      {ranked.length > visible && (
+        <div className="flex justify-center">
+          <Button
+            variant="outline"
+            onClick={() => setVisible((v) => v + PAGE_SIZE)}
+          >
+            Show {Math.min(PAGE_SIZE, ranked.length - visible)} more
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
-import { useEffect, useState, useMemo } from "react";
+import { useCallback, useEffect, useState, useMemo } from "react";
 import icon from "@/assets/icon.png";
 import {
   Github,
+  Lock,
   LogOut,
   Loader2,
   Sparkles,
@@ -9,10 +10,21 @@ import {
   X,
   Filter,
   ArrowUpDown,
+  Trash2,
+  RefreshCw,
+  LayoutGrid,
+  Table2,
+  FlaskConical,
+  ScrollText,
+  Archive,
 } from "lucide-react";
+import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import {
   Select,
   SelectContent,
@@ -21,7 +33,22 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { RepoCard } from "./RepoCard";
+import { RepoTable, type RepoSortKey } from "./RepoTable";
 import { ThemeToggle } from "./ThemeToggle";
+import { BulkDeleteDialog } from "./BulkDeleteDialog";
+import { TransferDialog } from "./TransferDialog";
+import { BackupOptionsFields } from "./BackupOptionsFields";
+import { RateLimitBanner, RateLimitMeter } from "./RateLimitMeter";
+import { OwnerSwitcher } from "./OwnerSwitcher";
+import { CleanupCandidates } from "./CleanupCandidates";
+import { PendingDeletionsBar, UndoCountdown } from "./PendingDeletions";
+import { SafeguardsDialog } from "./SafeguardsDialog";
+import { PoliciesDialog } from "./PoliciesDialog";
+import { ExportInventoryDialog } from "./ExportInventoryDialog";
+import { ImportListDialog } from "./ImportListDialog";
+import { DryRunBar, DryRunReportDialog } from "./DryRun";
+import { AccountSwitcher } from "./AccountSwitcher";
+import { RepoFetchStatus } from "./RepoFetchStatus";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -40,63 +67,256 @@ import {
   PaginationNext,
   PaginationPrevious,
 } from "@/components/ui/pagination";
+import { useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-
-interface RepoOwner {
-  login: string;
-  avatar_url?: string;
-  html_url?: string;
-}
-
-interface Repository {
-  id: number;
-  name: string;
-  full_name: string;
-  description: string | null;
-  html_url: string;
-  stargazers_count: number;
-  forks_count: number;
-  language: string | null;
-  private: boolean;
-  owner: RepoOwner;
-  fork: boolean;
-  updated_at: string;
-}
+import { useRateLimit } from "@/hooks/use-rate-limit";
+import { useForkDivergence } from "@/hooks/use-fork-divergence";
+import {
+  githubKeys,
+  useAuthenticatedUser,
+  useRepositories,
+  useUserOrgs,
+} from "@/hooks/use-github-queries";
+import {
+  usePendingDeletions,
+  type PendingDeletion,
+} from "@/hooks/use-pending-deletions";
+import { ToastAction } from "@/components/ui/toast";
+import { useSafeguards } from "@/hooks/use-safeguards";
+import { describeRule, findProtection } from "@/lib/protection";
+import { accountStorageKey, type SavedAccount } from "@/lib/accounts";
+import {
+  backupRepository,
+  DEFAULT_BACKUP_OPTIONS,
+  type BackupOptions,
+} from "@/lib/backup";
+import {
+  canAdminister,
+  GitHubClient,
+  type ListResult,
+  type MutationRequest,
+  type Repository,
+} from "@/lib/github";
+import { createIndexedDbResponseCache } from "@/lib/response-cache";
+import type { PolicyMatch } from "@/lib/policies";
+import { createDryRunEntry, type DryRunEntry } from "@/lib/dry-run";
+import {
+  describeError,
+  recordAuditEntry,
+  snapshotRepo,
+  type AuditAction,
+} from "@/lib/audit-log";
+import { runTaskQueue } from "@/lib/task-queue";
 
 interface DashboardProps {
+  /** See getAccountId; scopes state cached per account. */
+  accountId: string;
   username: string;
   token: string;
+  /** REST base URL for GitHub Enterprise Server accounts. */
+  apiBaseUrl?: string;
   onLogout: () => void;
-}
-
-interface UserProfile {
-  name: string | null;
-  avatar_url: string;
-  login: string;
+  /** Present when the token lives in an encrypted vault that can be locked. */
+  onLock?: () => void;
+  accounts: SavedAccount[];
+  onSwitchAccount: (accountId: string) => void;
+  onAddAccount: () => void;
+  onRemoveAccount: (accountId: string) => void;
 }
 
 const REPOS_PER_PAGE = 12;
+const UNDO_GRACE_MS = 15_000;
 
-export function Dashboard({ username, token, onLogout }: DashboardProps) {
-  const [repos, setRepos] = useState<Repository[]>([]);
-  const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
-  const [loading, setLoading] = useState(true);
+export function Dashboard({
+  accountId,
+  username,
+  token,
+  apiBaseUrl,
+  onLogout,
+  onLock,
+  accounts,
+  onSwitchAccount,
+  onAddAccount,
+  onRemoveAccount,
+}: DashboardProps) {
+  const selectedOrgKey = accountStorageKey(accountId, "owner");
+  const [selectedOrg, setSelectedOrg] = useState<string | null>(() =>
+    localStorage.getItem(selectedOrgKey),
+  );
   const [currentPage, setCurrentPage] = useState(1);
   const [deleteRepo, setDeleteRepo] = useState<Repository | null>(null);
-  const [deleting, setDeleting] = useState(false);
+  const [confirmName, setConfirmName] = useState("");
+  const [backupOptions, setBackupOptions] = useState<BackupOptions>(
+    DEFAULT_BACKUP_OPTIONS,
+  );
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [bulkDeleteOpen, setBulkDeleteOpen] = useState(false);
+  const [transferRepo, setTransferRepo] = useState<Repository | null>(null);
+  const [publishRepo, setPublishRepo] = useState<Repository | null>(null);
+  const [busyIds, setBusyIds] = useState<Set<number>>(new Set());
   const [searchQuery, setSearchQuery] = useState("");
   const [visibilityFilter, setVisibilityFilter] = useState<
     "all" | "public" | "private"
   >("all");
-  const [forkFilter, setForkFilter] = useState<"all" | "source" | "forks">(
-    "all",
-  );
+  const [forkFilter, setForkFilter] = useState<
+    "all" | "source" | "forks" | "unmodified"
+  >("all");
+  const [archivedFilter, setArchivedFilter] = useState<
+    "all" | "active" | "archived"
+  >("all");
   const [languageFilter, setLanguageFilter] = useState<string>("all");
-  const [sortBy, setSortBy] = useState<"name" | "updated" | "stars" | "forks">(
-    "name",
-  );
+  const [sortBy, setSortBy] = useState<RepoSortKey>("name");
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("asc");
+  const [view, setView] = useState<"all" | "candidates">("all");
+  const layoutKey = accountStorageKey(accountId, "layout");
+  const [layout, setLayout] = useState<"grid" | "table">(() =>
+    localStorage.getItem(layoutKey) === "table" ? "table" : "grid",
+  );
+  const [dryRun, setDryRun] = useState(false);
+  const [dryRunLog, setDryRunLog] = useState<DryRunEntry[]>([]);
+  const [dryRunReportOpen, setDryRunReportOpen] = useState(false);
+  // Simulated changes stay out of the persisted query cache
+  const [simulatedPatches, setSimulatedPatches] = useState<
+    Map<number, Partial<Repository>>
+  >(() => new Map());
   const { toast } = useToast();
+  const recordMutation = useCallback(
+    (request: MutationRequest) =>
+      setDryRunLog((prev) => [...prev, createDryRunEntry(request)]),
+    [],
+  );
+  const client = useMemo(
+    () =>
+      new GitHubClient({
+        token,
+        baseUrl: apiBaseUrl,
+        cache: createIndexedDbResponseCache(accountId),
+        dryRun: dryRun ? recordMutation : undefined,
+      }),
+    [token, apiBaseUrl, accountId, dryRun, recordMutation],
+  );
+  const queryClient = useQueryClient();
+  const userQuery = useAuthenticatedUser(client, accountId);
+  const orgsQuery = useUserOrgs(client, accountId);
+  const reposQuery = useRepositories(client, accountId, selectedOrg);
+  const userProfile = userQuery.data ?? null;
+  const orgs = useMemo(() => orgsQuery.data ?? [], [orgsQuery.data]);
+  const repos = useMemo(() => {
+    const items = reposQuery.data?.items ?? [];
+    if (simulatedPatches.size === 0) return items;
+    return items.map((repo) =>
+      simulatedPatches.has(repo.id)
+        ? { ...repo, ...simulatedPatches.get(repo.id) }
+        : repo,
+    );
+  }, [reposQuery.data, simulatedPatches]);
+  const loading = reposQuery.isPending;
+  const rateLimitStatus = useRateLimit(client);
+  const divergence = useForkDivergence(client, accountId, repos);
+  const [safeguards, setSafeguards] = useSafeguards();
+  const stalenessContext = useMemo(
+    () => ({
+      forkAheadBy: Object.fromEntries(
+        Object.entries(divergence)
+          .filter(([, d]) => d !== null)
+          .map(([id, d]) => [id, d.aheadBy]),
+      ),
+    }),
+    [divergence],
+  );
+
+  const canRunDeletion = useCallback(
+    (entry: PendingDeletion) => !!entry.simulated === dryRun,
+    [dryRun],
+  );
+  const {
+    pending: pendingDeletions,
+    stage: stageDeletion,
+    undo: undoDeletion,
+    undoAll: undoAllDeletions,
+    commitAll: commitPendingDeletions,
+  } = usePendingDeletions({
+    storageKey: accountStorageKey(accountId, "pending_deletions"),
+    graceMs: UNDO_GRACE_MS,
+    // Real deletions wait until dry run is off, simulated ones need it on
+    canRun: canRunDeletion,
+    execute: async ({ repo, backup, simulated }: PendingDeletion) => {
+      if (simulated) {
+        // Recorded by the client; the card stays with a simulated marker
+        await deleteRepository(repo);
+        return;
+      }
+      await backupBeforeDelete(repo, backup);
+      const rollback = removeCachedRepo(repo);
+      try {
+        await deleteRepository(repo);
+      } catch (error) {
+        rollback();
+        throw error;
+      }
+    },
+    onSettled: ({ repo, simulated }, error) => {
+      if (error) {
+        toast({
+          title: "Error deleting repository",
+          description: error instanceof Error ? error.message : "Unknown error",
+          variant: "destructive",
+        });
+        return;
+      }
+      toast(
+        simulated
+          ? {
+              title: "Deletion simulated",
+              description: `${repo.name} would have been deleted`,
+            }
+          : {
+              title: "Repository deleted",
+              description: `${repo.name} has been permanently deleted`,
+            },
+      );
+    },
+  });
+
+  useEffect(() => {
+    // Deletions staged during a dry run are dropped once it ends
+    if (dryRun) return;
+    pendingDeletions
+      .filter((entry) => entry.simulated)
+      .forEach((entry) => undoDeletion(entry.repo.id));
+  }, [dryRun, pendingDeletions, undoDeletion]);
+
+  /** Simulated actions per repository full name while dry run is on. */
+  const simulatedActions = useMemo(() => {
+    const actions = new Map<string, string[]>();
+    if (!dryRun) return actions;
+    dryRunLog.forEach(({ fullName, summary }) => {
+      if (fullName) {
+        actions.set(fullName, [...(actions.get(fullName) ?? []), summary]);
+      }
+    });
+    return actions;
+  }, [dryRun, dryRunLog]);
+
+  const handleDryRunChange = (enabled: boolean) => {
+    setDryRun(enabled);
+    setSimulatedPatches(new Map());
+    if (enabled) {
+      setDryRunLog([]);
+      return;
+    }
+    if (dryRunLog.length > 0) setDryRunReportOpen(true);
+  };
+
+  const pendingIds = useMemo(
+    () => new Set(pendingDeletions.map((p) => p.repo.id)),
+    [pendingDeletions],
+  );
+
+  const activeRepos = useMemo(
+    () => repos.filter((repo) => !pendingIds.has(repo.id)),
+    [repos, pendingIds],
+  );
 
   const uniqueLanguages = useMemo(() => {
     const langs = new Set<string>();
@@ -106,49 +326,55 @@ export function Dashboard({ username, token, onLogout }: DashboardProps) {
     return Array.from(langs).sort();
   }, [repos]);
 
-  const getNextUrlFromLink = (linkHeader: string | null): string | null => {
-    if (!linkHeader) return null;
-    const parts = linkHeader.split(",");
-    for (const part of parts) {
-      const match = part.match(/<([^>]+)>;\s*rel="([^"]+)"/);
-      if (match) {
-        const url = match[1];
-        const rel = match[2];
-        if (rel === "next") return url;
-      }
+  useEffect(() => {
+    if (selectedOrg) {
+      localStorage.setItem(selectedOrgKey, selectedOrg);
+    } else {
+      localStorage.removeItem(selectedOrgKey);
     }
-    return null;
-  };
+  }, [selectedOrgKey, selectedOrg]);
 
   useEffect(() => {
-    if (!token) return;
-    const controller = new AbortController();
-    const fetchAllSequential = async () => {
-      setLoading(true);
-      try {
-        await fetchUserProfile(controller.signal);
-        await fetchRepos(controller.signal);
-      } catch (err) {
-        if (!(err instanceof DOMException && err.name === "AbortError")) {
-          toast({
-            title: "Unexpected error",
-            description: err instanceof Error ? err.message : "Unknown error",
-            variant: "destructive",
-          });
-        }
-      } finally {
-        setLoading(false);
-      }
-    };
-    fetchAllSequential();
-    return () => {
-      controller.abort();
-    };
-  }, [token]);
+    localStorage.setItem(layoutKey, layout);
+  }, [layoutKey, layout]);
+
+  useEffect(() => {
+    setSelectedIds(new Set());
+  }, [selectedOrg]);
+
+  useEffect(() => {
+    if (orgsQuery.isError) {
+      // Tokens without read:org can't list memberships; show only the user
+      setSelectedOrg(null);
+    } else if (orgsQuery.data) {
+      // The remembered owner may be an org the account has since left
+      setSelectedOrg((prev) =>
+        prev && orgsQuery.data.some((org) => org.login === prev) ? prev : null,
+      );
+    }
+  }, [orgsQuery.data, orgsQuery.isError]);
+
+  useEffect(() => {
+    if (!userQuery.error) return;
+    toast({
+      title: "Error fetching profile",
+      description: userQuery.error.message,
+      variant: "destructive",
+    });
+  }, [userQuery.error, toast]);
+
+  useEffect(() => {
+    if (!reposQuery.error) return;
+    toast({
+      title: "Error fetching repositories",
+      description: reposQuery.error.message,
+      variant: "destructive",
+    });
+  }, [reposQuery.error, toast]);
 
   const filteredRepos = useMemo(() => {
     const q = searchQuery.trim().toLowerCase();
-    let items = repos;
+    let items = [...activeRepos];
 
     // Apply search filter
     if (q) {
@@ -172,6 +398,17 @@ export function Dashboard({ username, token, onLogout }: DashboardProps) {
       items = items.filter((repo) => !repo.fork);
     } else if (forkFilter === "forks") {
       items = items.filter((repo) => repo.fork);
+    } else if (forkFilter === "unmodified") {
+      items = items.filter(
+        (repo) => repo.fork && divergence[repo.id]?.aheadBy === 0,
+      );
+    }
+
+    // Apply archived filter
+    if (archivedFilter === "active") {
+      items = items.filter((repo) => !repo.archived);
+    } else if (archivedFilter === "archived") {
+      items = items.filter((repo) => repo.archived);
     }
 
     // Apply language filter
@@ -196,6 +433,20 @@ export function Dashboard({ username, token, onLogout }: DashboardProps) {
         case "forks":
           comparison = a.forks_count - b.forks_count;
           break;
+        case "language":
+          comparison = (a.language ?? "").localeCompare(b.language ?? "");
+          break;
+        case "issues":
+          comparison = (a.open_issues_count ?? 0) - (b.open_issues_count ?? 0);
+          break;
+        case "size":
+          comparison = a.size - b.size;
+          break;
+        case "last_commit":
+          comparison =
+            new Date(a.last_commit_at ?? a.pushed_at ?? 0).getTime() -
+            new Date(b.last_commit_at ?? b.pushed_at ?? 0).getTime();
+          break;
       }
       return sortOrder === "asc" ? comparison : -comparison;
     });
@@ -203,9 +454,11 @@ export function Dashboard({ username, token, onLogout }: DashboardProps) {
     return items;
   }, [
     searchQuery,
-    repos,
+    activeRepos,
+    divergence,
     visibilityFilter,
     forkFilter,
+    archivedFilter,
     languageFilter,
     sortBy,
     sortOrder,
@@ -217,6 +470,7 @@ export function Dashboard({ username, token, onLogout }: DashboardProps) {
     searchQuery,
     visibilityFilter,
     forkFilter,
+    archivedFilter,
     languageFilter,
     sortBy,
     sortOrder,
@@ -231,116 +485,366 @@ export function Dashboard({ username, token, onLogout }: DashboardProps) {
     }
   }, [filteredRepos, currentPage]);
 
-  const fetchUserProfile = async (signal?: AbortSignal) => {
-    try {
-      const response = await fetch(`https://api.github.com/user`, {
-        headers: {
-          Authorization: `token ${token}`,
-          Accept: "application/vnd.github.v3+json",
-        },
-        signal,
-      });
-      if (!response.ok) {
-        throw new Error(
-          `Failed to fetch user profile: ${response.status} ${response.statusText}`,
+  const handleRefresh = () => {
+    queryClient.invalidateQueries({ queryKey: githubKeys.account(accountId) });
+  };
+
+  /** Applies `update` to every cached repository list of this account. */
+  const updateCachedRepos = (update: (repos: Repository[]) => Repository[]) =>
+    queryClient.setQueriesData<ListResult<Repository>>(
+      { queryKey: githubKeys.allRepos(accountId) },
+      (prev) => prev && { ...prev, items: update(prev.items) },
+    );
+
+  /** Optimistically drops `repo` from the cache; returns a rollback. */
+  const removeCachedRepo = (repo: Repository) => {
+    const snapshots = queryClient.getQueriesData<ListResult<Repository>>({
+      queryKey: githubKeys.allRepos(accountId),
+    });
+    updateCachedRepos((prev) => prev.filter((r) => r.id !== repo.id));
+    return () =>
+      snapshots
+        .filter(([, data]) => data?.items.some((r) => r.id === repo.id))
+        .forEach(([key]) =>
+          queryClient.setQueryData<ListResult<Repository>>(key, (prev) =>
+            prev && !prev.items.some((r) => r.id === repo.id)
+              ? { ...prev, items: [...prev.items, repo] }
+              : prev,
+          ),
         );
-      }
-      const data = await response.json();
-      setUserProfile({
-        name: data.name,
-        avatar_url: data.avatar_url,
-        login: data.login,
-      });
+  };
+
+  /** Returns why `repo` is locked against deletion, or null. */
+  const protectionFor = (repo: Repository) => {
+    const rule = findProtection(repo, safeguards.rules);
+    return rule ? `Protected: ${describeRule(rule)}` : null;
+  };
+
+  const isSelectable = (repo: Repository) =>
+    canAdminister(repo) && !protectionFor(repo);
+
+  /** Runs `request` against `repo` and records the outcome in the audit log. */
+  const audited = async <T,>(
+    repo: Repository,
+    action: AuditAction,
+    request: () => Promise<T>,
+    details?: Record<string, unknown>,
+  ): Promise<T> => {
+    const entry = {
+      timestamp: Date.now(),
+      account: accountId,
+      fullName: repo.full_name,
+      action,
+      snapshot: snapshotRepo(repo),
+      details,
+    };
+    // Audit failures are not worth failing the action itself over
+    try {
+      const result = await request();
+      recordAuditEntry({
+        ...entry,
+        outcome: dryRun ? "simulated" : "succeeded",
+        error: null,
+      }).catch(() => {});
+      return result;
     } catch (error) {
-      if (error instanceof DOMException && error.name === "AbortError") return;
-      toast({
-        title: "Error fetching profile",
-        description: error instanceof Error ? error.message : "Unknown error",
-        variant: "destructive",
-      });
+      recordAuditEntry({
+        ...entry,
+        outcome: "failed",
+        error: describeError(error),
+      }).catch(() => {});
+      throw error;
+    }
+  };
+
+  const deleteRepository = async (repo: Repository) => {
+    // Final check so no code path can delete a protected repository
+    const protection = protectionFor(repo);
+    if (protection) {
+      throw new Error(`${repo.full_name} is locked. ${protection}`);
     }
+    await audited(repo, "delete", () => client.deleteRepo(repo.full_name));
   };
 
-  const fetchRepos = async (signal?: AbortSignal) => {
-    setLoading(true);
+  const patchCachedRepo = (repoId: number, changes: Partial<Repository>) =>
+    updateCachedRepos((prev) =>
+      prev.map((r) => (r.id === repoId ? { ...r, ...changes } : r)),
+    );
+
+  /** Applies an action's result: to the cache, or locally during a dry run. */
+  const applyRepoChanges = (repoId: number, changes: Partial<Repository>) => {
+    if (!dryRun) {
+      patchCachedRepo(repoId, changes);
+      return;
+    }
+    setSimulatedPatches((prev) =>
+      new Map(prev).set(repoId, { ...prev.get(repoId), ...changes }),
+    );
+  };
+
+  /**
+   * Runs `action` for `repo`, merging the updated repository into the cache
+   * (or the dry-run overlay).
+   * `optimistic` changes are shown right away and rolled back on failure.
+   */
+  const runRepoAction = async (
+    repo: Repository,
+    action: () => Promise<Partial<Repository>>,
+    success: { title: string; description: string },
+    optimistic?: Partial<Repository>,
+  ) => {
+    setBusyIds((prev) => new Set(prev).add(repo.id));
+    // A dry run answers immediately, so there is nothing to show early
+    const showEarly = optimistic && !dryRun;
+    if (showEarly) {
+      // Keep an in-flight refetch from overwriting the optimistic state
+      await queryClient.cancelQueries({
+        queryKey: githubKeys.allRepos(accountId),
+      });
+      patchCachedRepo(repo.id, optimistic);
+    }
     try {
-      const perPage = 100;
-      let url = `https://api.github.com/user/repos?per_page=${perPage}&sort=updated&type=owner`;
-      const allRepos: Repository[] = [];
-      while (url) {
-        const response = await fetch(url, {
-          headers: {
-            Authorization: `token ${token}`,
-            Accept: "application/vnd.github.v3+json",
-          },
-          signal,
-        });
-        if (!response.ok) {
-          throw new Error(
-            `Failed to fetch repositories: ${response.status} ${response.statusText}`,
-          );
-        }
-        const data = await response.json();
-        if (!Array.isArray(data)) {
-          throw new Error("Unexpected response shape from GitHub API");
-        }
-        allRepos.push(...data);
-        const linkHeader = response.headers.get("link");
-        const next = getNextUrlFromLink(linkHeader);
-        url = next;
-      }
-      setRepos(allRepos);
+      const updated = await action();
+      applyRepoChanges(repo.id, updated);
+      toast(success);
     } catch (error) {
-      if (error instanceof DOMException && error.name === "AbortError") return;
+      if (showEarly) patchCachedRepo(repo.id, repo);
       toast({
-        title: "Error fetching repositories",
+        title: "Error updating repository",
         description: error instanceof Error ? error.message : "Unknown error",
         variant: "destructive",
       });
+      throw error;
     } finally {
-      setLoading(false);
+      setBusyIds((prev) => {
+        const next = new Set(prev);
+        next.delete(repo.id);
+        return next;
+      });
     }
   };
 
-  const handleDeleteRepo = async () => {
-    if (!deleteRepo) return;
-    setDeleting(true);
+  const handleToggleArchived = (repo: Repository) =>
+    runRepoAction(
+      repo,
+      () =>
+        audited(repo, repo.archived ? "unarchive" : "archive", () =>
+          client.updateRepo(repo.full_name, { archived: !repo.archived }),
+        ),
+      {
+        title: repo.archived ? "Repository unarchived" : "Repository archived",
+        description: repo.archived
+          ? `${repo.name} is writable again`
+          : `${repo.name} is now read-only`,
+      },
+      { archived: !repo.archived },
+    ).catch(() => {});
+
+  const changeVisibility = (repo: Repository) =>
+    runRepoAction(
+      repo,
+      () =>
+        audited(repo, repo.private ? "make_public" : "make_private", () =>
+          client.updateRepo(repo.full_name, { private: !repo.private }),
+        ),
+      {
+        title: "Visibility changed",
+        description: `${repo.name} is now ${repo.private ? "public" : "private"}`,
+      },
+      { private: !repo.private },
+    ).catch(() => {});
+
+  // Publishing exposes the code, so it waits for confirmation
+  const handleToggleVisibility = (repo: Repository) => {
+    if (repo.private) setPublishRepo(repo);
+    else changeVisibility(repo);
+  };
+
+  const handleTransferRepo = async (repo: Repository, newOwner: string) => {
     try {
-      const response = await fetch(
-        `https://api.github.com/repos/${deleteRepo.full_name}`,
+      await runRepoAction(
+        repo,
+        async () => {
+          const transferred = await audited(
+            repo,
+            "transfer",
+            () => client.transferRepo(repo.full_name, newOwner),
+            { new_owner: newOwner },
+          );
+          // A dry run answers with the request body, not a repository
+          return dryRun
+            ? { owner: { ...repo.owner, login: newOwner } }
+            : transferred;
+        },
         {
-          method: "DELETE",
-          headers: {
-            Authorization: `token ${token}`,
-            Accept: "application/vnd.github.v3+json",
-          },
+          title: "Transfer requested",
+          description: `${repo.name} is being transferred to ${newOwner}`,
         },
       );
-      if (!response.ok) {
-        let errMsg = `Failed to delete repository: ${response.status} ${response.statusText}`;
-        try {
-          const body = await response.json();
-          if (body && body.message) errMsg += ` — ${body.message}`;
-        } catch {}
-        throw new Error(errMsg);
-      }
-      setRepos((prev) => prev.filter((r) => r.id !== deleteRepo.id));
-      toast({
-        title: "Repository deleted",
-        description: `${deleteRepo.name} has been permanently deleted`,
-      });
+      setTransferRepo(null);
+    } catch {
+      // Error already surfaced by runRepoAction; keep the dialog open
+    }
+  };
+
+  const backupBeforeDelete = async (
+    repo: Repository,
+    options: BackupOptions = backupOptions,
+  ) => {
+    if (!options.enabled) return;
+    try {
+      await backupRepository(repo, client, options);
     } catch (error) {
+      throw new Error(
+        `Backup failed, repository was not deleted — ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  };
+
+  const backupAndDeleteRepository = async (repo: Repository) => {
+    if (!dryRun) await backupBeforeDelete(repo);
+    await deleteRepository(repo);
+  };
+
+  const confirmationRequired = safeguards.confirmation === "typed";
+  const confirmationMatches =
+    !confirmationRequired || confirmName.trim() === deleteRepo?.full_name;
+
+  const handleDeleteRepo = () => {
+    if (!deleteRepo || !confirmationMatches) return;
+    const protection = protectionFor(deleteRepo);
+    if (protection) {
       toast({
-        title: "Error deleting repository",
-        description: error instanceof Error ? error.message : "Unknown error",
+        title: "Repository is protected",
+        description: `${deleteRepo.full_name} cannot be deleted. ${protection}`,
         variant: "destructive",
       });
-    } finally {
-      setDeleting(false);
       setDeleteRepo(null);
+      return;
+    }
+    const entry = stageDeletion(deleteRepo, backupOptions, dryRun);
+    setDeleteRepo(null);
+    toast({
+      title: "Deletion scheduled",
+      description: (
+        <UndoCountdown name={deleteRepo.name} executeAt={entry.executeAt} />
+      ),
+      action: (
+        <ToastAction
+          altText="Undo deletion"
+          onClick={() => {
+            if (!undoDeletion(entry.repo.id)) return;
+            toast({
+              title: "Deletion cancelled",
+              description: `${entry.repo.name} was not deleted`,
+            });
+          }}
+        >
+          Undo
+        </ToastAction>
+      ),
+    });
+  };
+
+  const handleBulkDeleteFinished = (deleted: Repository[]) => {
+    if (deleted.length === 0) return;
+    if (dryRun) {
+      toast({
+        title: "Bulk delete simulated",
+        description: `${deleted.length} ${deleted.length === 1 ? "repository" : "repositories"} would have been deleted`,
+      });
+      return;
+    }
+    const deletedIds = new Set(deleted.map((r) => r.id));
+    updateCachedRepos((prev) => prev.filter((r) => !deletedIds.has(r.id)));
+    toast({
+      title: "Bulk delete finished",
+      description: `${deleted.length} ${deleted.length === 1 ? "repository was" : "repositories were"} permanently deleted`,
+    });
+  };
+
+  /**
+   * Runs the actions accepted in the policy preview. Archiving happens right
+   * away; deletions are selected and handed to the bulk delete dialog so
+   * they still go through its confirmation and backups.
+   */
+  const handleApplyPolicies = async (matches: PolicyMatch[]) => {
+    const deletions = matches.filter((m) => m.action === "delete");
+    if (deletions.length > 0) {
+      setSelectedIds(new Set(deletions.map((m) => m.repo.id)));
+      setBulkDeleteOpen(true);
+    }
+    const archives = matches
+      .filter((m) => m.action === "archive")
+      .map((m) => m.repo);
+    if (archives.length > 0) {
+      await archiveRepos(archives, "Policy archiving finished");
     }
   };
 
+  const archiveRepos = async (items: Repository[], title: string) => {
+    const results = await runTaskQueue(items, async (repo) => {
+      const updated = await audited(repo, "archive", () =>
+        client.updateRepo(repo.full_name, { archived: true }),
+      );
+      applyRepoChanges(repo.id, updated);
+    });
+    const failed = results.filter((task) => task.status === "failed");
+    toast({
+      title,
+      description: `${items.length - failed.length} archived${failed.length ? `, ${failed.length} failed` : ""}`,
+      variant: failed.length ? "destructive" : undefined,
+    });
+  };
+
+  const handleListSelect = (items: Repository[]) => {
+    setSelectedIds(new Set(items.map((r) => r.id)));
+    toast({
+      title: `${items.length} ${items.length === 1 ? "repository" : "repositories"} selected`,
+      description: "Review the selection, then archive or delete it.",
+    });
+  };
+
+  const toggleSelected = (repo: Repository, selected: boolean) => {
+    if (selected && !isSelectable(repo)) return;
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (selected) next.add(repo.id);
+      else next.delete(repo.id);
+      return next;
+    });
+  };
+
+  const selectRepos = (items: Repository[]) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      items.filter(isSelectable).forEach((r) => next.add(r.id));
+      return next;
+    });
+  };
+
+  const selectedRepos = useMemo(
+    () => repos.filter((r) => selectedIds.has(r.id) && !pendingIds.has(r.id)),
+    [repos, selectedIds, pendingIds],
+  );
+
+  useEffect(() => {
+    // Drop selections for repositories that no longer exist or became locked
+    setSelectedIds((prev) => {
+      const ids = new Set(
+        repos
+          .filter((r) => !findProtection(r, safeguards.rules))
+          .map((r) => r.id),
+      );
+      const next = new Set([...prev].filter((id) => ids.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [repos, safeguards.rules]);
+
+  useEffect(() => {
+    setConfirmName("");
+  }, [deleteRepo]);
+
   const totalPages = Math.max(
     1,
     Math.ceil(filteredRepos.length / REPOS_PER_PAGE),
@@ -396,27 +900,75 @@ export function Dashboard({ username, token, onLogout }: DashboardProps) {
                   Repo Cleaner
                 </h1>
                 {userProfile && (
-                  <div className="flex items-center gap-1.5 sm:gap-2 mt-0.5">
-                    <Avatar className="w-4 h-4 sm:w-5 sm:h-5 border border-primary/20">
-                      <AvatarImage
-                        src={userProfile.avatar_url}
-                        alt={userProfile.login}
-                      />
-                      <AvatarFallback className="text-xs">
-                        {userProfile.login
-                          ? userProfile.login[0].toUpperCase()
-                          : "U"}
-                      </AvatarFallback>
-                    </Avatar>
-                    <p className="text-xs sm:text-sm font-medium text-foreground truncate">
-                      {userProfile.name || userProfile.login}
-                    </p>
-                  </div>
+                  <OwnerSwitcher
+                    user={userProfile}
+                    orgs={orgs}
+                    value={selectedOrg}
+                    onChange={setSelectedOrg}
+                    disabled={loading}
+                  />
                 )}
               </div>
             </div>
             <div className="flex items-center gap-2 shrink-0">
+              <RateLimitMeter status={rateLimitStatus} />
+              <div
+                className="flex items-center gap-2 px-2"
+                title="Simulate changes without sending them to GitHub"
+              >
+                <Switch
+                  id="dry-run"
+                  checked={dryRun}
+                  onCheckedChange={handleDryRunChange}
+                />
+                <Label
+                  htmlFor="dry-run"
+                  className="flex items-center gap-1 text-sm cursor-pointer"
+                >
+                  <FlaskConical className="w-4 h-4" />
+                  <span className="hidden md:inline">Dry run</span>
+                </Label>
+              </div>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={handleRefresh}
+                disabled={reposQuery.isFetching}
+                aria-label="Refresh"
+              >
+                <RefreshCw
+                  className={`h-5 w-5 ${reposQuery.isFetching ? "animate-spin" : ""}`}
+                />
+              </Button>
+              <PoliciesDialog
+                repos={activeRepos}
+                lockedReason={protectionFor}
+                onApply={handleApplyPolicies}
+              />
+              <SafeguardsDialog value={safeguards} onChange={setSafeguards} />
+              <Button variant="outline" size="icon" asChild>
+                <Link to="/audit" aria-label="Audit log">
+                  <ScrollText className="h-5 w-5" />
+                </Link>
+              </Button>
               <ThemeToggle />
+              <AccountSwitcher
+                accounts={accounts}
+                active={accountId}
+                onSwitch={onSwitchAccount}
+                onAdd={onAddAccount}
+                onRemove={onRemoveAccount}
+              />
+              {onLock && (
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={onLock}
+                  aria-label="Lock"
+                >
+                  <Lock className="h-5 w-5" />
+                </Button>
+              )}
               <Button
                 variant="outline"
                 onClick={onLogout}
@@ -432,6 +984,20 @@ export function Dashboard({ username, token, onLogout }: DashboardProps) {
       </header>
 
       <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8">
+        <RateLimitBanner status={rateLimitStatus} />
+        {dryRun && (
+          <DryRunBar
+            entries={dryRunLog}
+            onShowReport={() => setDryRunReportOpen(true)}
+          />
+        )}
+        <PendingDeletionsBar
+          pending={pendingDeletions}
+          onUndo={undoDeletion}
+          onUndoAll={undoAllDeletions}
+          onCommitAll={commitPendingDeletions}
+          dryRun={dryRun}
+        />
         {loading ? (
           <div className="flex items-center justify-center py-20">
             <Loader2 className="w-8 h-8 animate-spin text-primary" />
@@ -443,7 +1009,9 @@ export function Dashboard({ username, token, onLogout }: DashboardProps) {
               No repositories found
             </h2>
             <p className="text-muted-foreground">
-              You don't have any repositories yet
+              {selectedOrg
+                ? `${selectedOrg} doesn't have any repositories yet`
+                : "You don't have any repositories yet"}
             </p>
           </div>
         ) : (
@@ -452,7 +1020,9 @@ export function Dashboard({ username, token, onLogout }: DashboardProps) {
               <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
                 <div className="flex items-center gap-3 flex-wrap">
                   <h2 className="text-2xl sm:text-3xl font-bold bg-gradient-to-r from-foreground to-muted-foreground bg-clip-text text-transparent">
-                    Your Repositories
+                    {selectedOrg
+                      ? `${selectedOrg} Repositories`
+                      : "Your Repositories"}
                   </h2>
                   <div className="flex items-center gap-2 px-3 py-1.5 bg-primary/10 rounded-full border border-primary/20">
                     <Sparkles className="w-4 h-4 text-primary" />
@@ -461,6 +1031,49 @@ export function Dashboard({ username, token, onLogout }: DashboardProps) {
                       {searchQuery && ` of ${repos.length}`}
                     </span>
                   </div>
+                  <RepoFetchStatus
+                    query={reposQuery}
+                    onCancel={() =>
+                      queryClient.cancelQueries({
+                        queryKey: githubKeys.repos(accountId, selectedOrg),
+                      })
+                    }
+                  />
+                </div>
+                <div className="flex items-center gap-2">
+                  <ExportInventoryDialog
+                    repos={filteredRepos}
+                    owner={selectedOrg ?? username}
+                  />
+                  {view === "all" && (
+                    <ToggleGroup
+                      type="single"
+                      variant="outline"
+                      size="sm"
+                      value={layout}
+                      onValueChange={(value) =>
+                        value && setLayout(value as typeof layout)
+                      }
+                    >
+                      <ToggleGroupItem value="grid" aria-label="Card grid">
+                        <LayoutGrid className="w-4 h-4" />
+                      </ToggleGroupItem>
+                      <ToggleGroupItem value="table" aria-label="Table">
+                        <Table2 className="w-4 h-4" />
+                      </ToggleGroupItem>
+                    </ToggleGroup>
+                  )}
+                  <Tabs
+                    value={view}
+                    onValueChange={(value) => setView(value as typeof view)}
+                  >
+                    <TabsList>
+                      <TabsTrigger value="all">All repositories</TabsTrigger>
+                      <TabsTrigger value="candidates">
+                        Cleanup candidates
+                      </TabsTrigger>
+                    </TabsList>
+                  </Tabs>
                 </div>
               </div>
 
@@ -508,13 +1121,32 @@ export function Dashboard({ username, token, onLogout }: DashboardProps) {
                   value={forkFilter}
                   onValueChange={(value: any) => setForkFilter(value)}
                 >
-                  <SelectTrigger className="w-[130px] h-9">
+                  <SelectTrigger className="w-auto min-w-[130px] h-9">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All Types</SelectItem>
                     <SelectItem value="source">Source</SelectItem>
                     <SelectItem value="forks">Forks</SelectItem>
+                    <SelectItem value="unmodified">
+                      Forks with no unique commits
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+
+                <Select
+                  value={archivedFilter}
+                  onValueChange={(value) =>
+                    setArchivedFilter(value as typeof archivedFilter)
+                  }
+                >
+                  <SelectTrigger className="w-[130px] h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All States</SelectItem>
+                    <SelectItem value="active">Active</SelectItem>
+                    <SelectItem value="archived">Archived</SelectItem>
                   </SelectContent>
                 </Select>
 
@@ -556,6 +1188,10 @@ export function Dashboard({ username, token, onLogout }: DashboardProps) {
                     <SelectItem value="updated">Last Updated</SelectItem>
                     <SelectItem value="stars">Most Stars</SelectItem>
                     <SelectItem value="forks">Most Forks</SelectItem>
+                    <SelectItem value="language">Language</SelectItem>
+                    <SelectItem value="issues">Open Issues</SelectItem>
+                    <SelectItem value="size">Disk Usage</SelectItem>
+                    <SelectItem value="last_commit">Last Commit</SelectItem>
                   </SelectContent>
                 </Select>
 
@@ -574,6 +1210,7 @@ export function Dashboard({ username, token, onLogout }: DashboardProps) {
 
                 {(visibilityFilter !== "all" ||
                   forkFilter !== "all" ||
+                  archivedFilter !== "all" ||
                   languageFilter !== "all" ||
                   sortBy !== "name" ||
                   sortOrder !== "asc") && (
@@ -583,6 +1220,7 @@ export function Dashboard({ username, token, onLogout }: DashboardProps) {
                     onClick={() => {
                       setVisibilityFilter("all");
                       setForkFilter("all");
+                      setArchivedFilter("all");
                       setLanguageFilter("all");
                       setSortBy("name");
                       setSortOrder("asc");
@@ -595,6 +1233,74 @@ export function Dashboard({ username, token, onLogout }: DashboardProps) {
               </div>
             </div>
 
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+              {view === "all" && layout === "grid" && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => selectRepos(paginatedRepos)}
+                  className="h-8 text-xs"
+                >
+                  Select page
+                </Button>
+              )}
+              {view === "all" && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => selectRepos(filteredRepos)}
+                  className="h-8 text-xs"
+                >
+                  Select all {filteredRepos.length} matching
+                </Button>
+              )}
+              <ImportListDialog
+                repos={activeRepos}
+                lockedReason={protectionFor}
+                onSelect={handleListSelect}
+              />
+              {selectedIds.size > 0 && (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setSelectedIds(new Set())}
+                    className="h-8 text-xs"
+                  >
+                    Clear selection
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      archiveRepos(
+                        selectedRepos.filter((r) => !r.archived),
+                        "Archiving finished",
+                      );
+                      setSelectedIds(new Set());
+                    }}
+                    disabled={selectedRepos.every((r) => r.archived)}
+                    className="h-8 text-xs gap-1.5"
+                  >
+                    <Archive className="w-3.5 h-3.5" />
+                    Archive {
+                      selectedRepos.filter((r) => !r.archived).length
+                    }{" "}
+                    selected
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => setBulkDeleteOpen(true)}
+                    disabled={selectedRepos.length === 0}
+                    className="h-8 text-xs gap-1.5 bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                    Delete {selectedRepos.length} selected
+                  </Button>
+                </>
+              )}
+            </div>
+
             {filteredRepos.length === 0 ? (
               <div className="text-center py-20">
                 <Search className="w-16 h-16 mx-auto text-muted-foreground/50 mb-4" />
@@ -610,6 +1316,7 @@ export function Dashboard({ username, token, onLogout }: DashboardProps) {
                     setSearchQuery("");
                     setVisibilityFilter("all");
                     setForkFilter("all");
+                    setArchivedFilter("all");
                     setLanguageFilter("all");
                   }}
                   className="mt-4"
@@ -617,6 +1324,39 @@ export function Dashboard({ username, token, onLogout }: DashboardProps) {
                   Clear all filters
                 </Button>
               </div>
+            ) : view === "candidates" ? (
+              <CleanupCandidates
+                repos={filteredRepos}
+                context={stalenessContext}
+                selectedIds={selectedIds}
+                onSelectedChange={(repo, selected) =>
+                  toggleSelected(repo, selected)
+                }
+                onSelectAll={selectRepos}
+                onDelete={setDeleteRepo}
+                lockedReason={protectionFor}
+              />
+            ) : layout === "table" ? (
+              <RepoTable
+                repos={filteredRepos}
+                sortBy={sortBy}
+                sortOrder={sortOrder}
+                onSortChange={(key, order) => {
+                  setSortBy(key);
+                  setSortOrder(order);
+                }}
+                selectedIds={selectedIds}
+                onSelectedChange={toggleSelected}
+                busyIds={busyIds}
+                divergence={divergence}
+                lockedReason={protectionFor}
+                onDelete={setDeleteRepo}
+                onToggleArchived={handleToggleArchived}
+                onToggleVisibility={handleToggleVisibility}
+                onTransfer={setTransferRepo}
+                storageKey={accountStorageKey(accountId, "table_layout")}
+                simulated={simulatedActions}
+              />
             ) : (
               <>
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 mb-8 auto-rows-fr">
@@ -625,6 +1365,18 @@ export function Dashboard({ username, token, onLogout }: DashboardProps) {
                       key={repo.id}
                       repo={repo}
                       onDelete={() => setDeleteRepo(repo)}
+                      onToggleArchived={() => handleToggleArchived(repo)}
+                      onToggleVisibility={() => handleToggleVisibility(repo)}
+                      onTransfer={() => setTransferRepo(repo)}
+                      busy={busyIds.has(repo.id)}
+                      canAdmin={canAdminister(repo)}
+                      divergence={divergence[repo.id]}
+                      protectedBy={protectionFor(repo)}
+                      simulated={simulatedActions.get(repo.full_name)}
+                      selected={selectedIds.has(repo.id)}
+                      onSelectedChange={(selected) =>
+                        toggleSelected(repo, selected)
+                      }
                     />
                   ))}
                 </div>
@@ -685,7 +1437,7 @@ export function Dashboard({ username, token, onLogout }: DashboardProps) {
       <AlertDialog
         open={!!deleteRepo}
         onOpenChange={(open) => {
-          if (!open && !deleting) setDeleteRepo(null);
+          if (!open) setDeleteRepo(null);
         }}
       >
         <AlertDialogContent>
@@ -693,28 +1445,98 @@ export function Dashboard({ username, token, onLogout }: DashboardProps) {
             <AlertDialogTitle>Delete Repository</AlertDialogTitle>
             <AlertDialogDescription>
               Are you sure you want to delete{" "}
-              <strong>{deleteRepo?.name}</strong>? This action cannot be undone.
+              <strong>{deleteRepo?.name}</strong>? You'll have{" "}
+              {UNDO_GRACE_MS / 1000} seconds to undo before it is permanently
+              deleted.
             </AlertDialogDescription>
           </AlertDialogHeader>
+          <BackupOptionsFields
+            value={backupOptions}
+            onChange={setBackupOptions}
+          />
+          {confirmationRequired && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                Type{" "}
+                <strong className="text-foreground">
+                  {deleteRepo?.full_name}
+                </strong>{" "}
+                to confirm.
+              </p>
+              <Input
+                value={confirmName}
+                onChange={(e) => setConfirmName(e.target.value)}
+                placeholder={deleteRepo?.full_name}
+                autoComplete="off"
+              />
+            </div>
+          )}
           <AlertDialogFooter>
-            <AlertDialogCancel disabled={deleting}>Cancel</AlertDialogCancel>
-            <AlertDialogAction
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <Button
               onClick={handleDeleteRepo}
-              disabled={deleting}
+              disabled={!confirmationMatches}
               className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
             >
-              {deleting ? (
-                <>
-                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  Deleting...
-                </>
-              ) : (
-                "Delete"
-              )}
+              {backupOptions.enabled ? "Back up & Delete" : "Delete"}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog
+        open={!!publishRepo}
+        onOpenChange={(open) => {
+          if (!open) setPublishRepo(null);
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Make Repository Public</AlertDialogTitle>
+            <AlertDialogDescription>
+              Anyone will be able to see{" "}
+              <strong>{publishRepo?.full_name}</strong>, including its code and
+              full history. Check it for secrets before continuing.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (publishRepo) changeVisibility(publishRepo);
+              }}
+            >
+              Make public
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <TransferDialog
+        repo={transferRepo}
+        onOpenChange={(open) => {
+          if (!open) setTransferRepo(null);
+        }}
+        onTransfer={handleTransferRepo}
+      />
+
+      <DryRunReportDialog
+        entries={dryRunLog}
+        open={dryRunReportOpen}
+        onOpenChange={setDryRunReportOpen}
+      />
+      <BulkDeleteDialog
+        repos={selectedRepos}
+        open={bulkDeleteOpen}
+        onOpenChange={setBulkDeleteOpen}
+        onDeleteRepo={backupAndDeleteRepository}
+        onFinished={handleBulkDeleteFinished}
+      >
+        <BackupOptionsFields
+          value={backupOptions}
+          onChange={setBackupOptions}
+        />
+      </BulkDeleteDialog>
     </div>
   );
 }
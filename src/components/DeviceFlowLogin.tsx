@@ -0,0 +1,198 @@
+import { useEffect, useRef, useState } from "react";
+import { Copy, ExternalLink, Github, Loader2, Settings2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  DEFAULT_OAUTH_BASE_URL,
+  pollForAccessToken,
+  requestDeviceCode,
+  type DeviceCode,
+} from "@/lib/github";
+
+interface DeviceFlowLoginProps {
+  onAuthorized: (token: string) => Promise<void>;
+}
+
+interface OAuthSettings {
+  clientId: string;
+  baseUrl: string;
+}
+
+const SETTINGS_STORAGE_KEY = "oauth_settings";
+
+function loadSettings(): OAuthSettings {
+  const defaults = {
+    clientId: import.meta.env.VITE_GITHUB_CLIENT_ID ?? "",
+    baseUrl:
+      import.meta.env.VITE_GITHUB_OAUTH_BASE_URL ?? DEFAULT_OAUTH_BASE_URL,
+  };
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (stored) return { ...defaults, ...JSON.parse(stored) };
+  } catch {
+    // Corrupt value; fall back to defaults
+  }
+  return defaults;
+}
+
+export function DeviceFlowLogin({ onAuthorized }: DeviceFlowLoginProps) {
+  const [settings, setSettings] = useState<OAuthSettings>(loadSettings);
+  const [code, setCode] = useState<DeviceCode | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const start = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const options = {
+      clientId: settings.clientId.trim(),
+      baseUrl: settings.baseUrl.trim() || DEFAULT_OAUTH_BASE_URL,
+    };
+    setError(null);
+    setBusy(true);
+    try {
+      const deviceCode = await requestDeviceCode(options, controller.signal);
+      setCode(deviceCode);
+      const token = await pollForAccessToken(
+        options,
+        deviceCode,
+        controller.signal,
+      );
+      await onAuthorized(token);
+    } catch (err) {
+      if (err instanceof DOMException && err.name === "AbortError") return;
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      if (!controller.signal.aborted) {
+        setBusy(false);
+        setCode(null);
+      }
+    }
+  };
+
+  const cancel = () => {
+    controllerRef.current?.abort();
+    setBusy(false);
+    setCode(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      {code ? (
+        <div className="space-y-3 rounded-md border border-border/50 p-4 text-center">
+          <p className="text-sm text-muted-foreground">
+            Enter this code on GitHub to authorize Repo Cleaner
+          </p>
+          <div className="flex items-center justify-center gap-2">
+            <span className="font-mono text-2xl font-bold tracking-widest">
+              {code.userCode}
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="Copy code"
+              onClick={() => navigator.clipboard?.writeText(code.userCode)}
+            >
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <Button asChild variant="outline" className="w-full gap-2">
+            <a
+              href={code.verificationUri}
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              Open {new URL(code.verificationUri).host}
+              <ExternalLink className="w-4 h-4" />
+            </a>
+          </Button>
+          <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            Waiting for authorization...
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={cancel}>
+            Cancel
+          </Button>
+        </div>
+      ) : (
+        <Button
+          type="button"
+          variant="outline"
+          className="w-full h-11 gap-2"
+          onClick={start}
+          disabled={busy || !settings.clientId.trim()}
+        >
+          {busy ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <Github className="w-4 h-4" />
+          )}
+          Sign in with GitHub
+        </Button>
+      )}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      <Collapsible>
+        <CollapsibleTrigger asChild>
+          <button
+            type="button"
+            className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <Settings2 className="w-3.5 h-3.5" />
+            OAuth app settings
+          </button>
+        </CollapsibleTrigger>
+        <CollapsibleContent className="space-y-3 pt-3">
+          <div className="space-y-2">
+            <Label htmlFor="oauth-client-id" className="text-xs">
+              Client ID
+            </Label>
+            <Input
+              id="oauth-client-id"
+              value={settings.clientId}
+              onChange={(e) =>
+                setSettings((prev) => ({ ...prev, clientId: e.target.value }))
+              }
+              placeholder="Iv1.0123456789abcdef"
+              className="h-9"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="oauth-base-url" className="text-xs">
+              Endpoint base
+            </Label>
+            <Input
+              id="oauth-base-url"
+              value={settings.baseUrl}
+              onChange={(e) =>
+                setSettings((prev) => ({ ...prev, baseUrl: e.target.value }))
+              }
+              placeholder={DEFAULT_OAUTH_BASE_URL}
+              className="h-9"
+            />
+            <p className="text-xs text-muted-foreground">
+              GitHub does not send CORS headers for the device flow, so sign-in
+              from the browser needs a CORS-enabled proxy that forwards{" "}
+              <code>/login/device/code</code> and{" "}
+              <code>/login/oauth/access_token</code> to GitHub.
+            </p>
+          </div>
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  );
+}
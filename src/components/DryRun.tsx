@@ -0,0 +1,116 @@
+import { Download, FileText, FlaskConical } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { downloadBlob } from "@/lib/backup";
+import { formatDryRunReport, type DryRunEntry } from "@/lib/dry-run";
+
+interface DryRunBarProps {
+  entries: DryRunEntry[];
+  onShowReport: () => void;
+}
+
+/** Reminds that dry run is on and counts the intercepted requests. */
+export function DryRunBar({ entries, onShowReport }: DryRunBarProps) {
+  return (
+    <div className="mb-6 rounded-lg border border-dashed border-sky-500/50 bg-sky-500/5 p-4 flex flex-wrap items-center gap-3">
+      <FlaskConical className="w-4 h-4 text-sky-600 dark:text-sky-400" />
+      <p className="text-sm">
+        <span className="font-medium">Dry run is on.</span>{" "}
+        <span className="text-muted-foreground">
+          Changes are simulated locally and nothing is sent to GitHub.{" "}
+          {entries.length} {entries.length === 1 ? "request" : "requests"}{" "}
+          intercepted so far.
+        </span>
+      </p>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={onShowReport}
+        className="ml-auto h-8 text-xs gap-1.5"
+      >
+        <FileText className="w-3.5 h-3.5" />
+        View report
+      </Button>
+    </div>
+  );
+}
+
+interface DryRunReportDialogProps {
+  entries: DryRunEntry[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function DryRunReportDialog({
+  entries,
+  open,
+  onOpenChange,
+}: DryRunReportDialogProps) {
+  const download = () =>
+    downloadBlob(
+      new Blob([formatDryRunReport(entries)], { type: "text/markdown" }),
+      `dry-run-${new Date().toISOString().slice(0, 10)}.md`,
+    );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Dry run report</DialogTitle>
+          <DialogDescription>
+            {entries.length === 0
+              ? "No mutating requests have been intercepted yet."
+              : `${entries.length} ${entries.length === 1 ? "request" : "requests"} would have been sent to GitHub.`}
+          </DialogDescription>
+        </DialogHeader>
+        <ol className="space-y-3">
+          {entries.map((entry) => (
+            <li
+              key={entry.id}
+              className="rounded-md border border-border/50 p-3 space-y-1.5"
+            >
+              <div className="flex items-center gap-2 text-sm">
+                <span className="font-medium">{entry.summary}</span>
+                {entry.fullName && (
+                  <span className="font-mono text-muted-foreground truncate">
+                    {entry.fullName}
+                  </span>
+                )}
+                <span className="ml-auto text-xs text-muted-foreground shrink-0">
+                  {new Date(entry.timestamp).toLocaleTimeString()}
+                </span>
+              </div>
+              <p className="font-mono text-xs break-all">
+                {entry.method} {entry.url}
+              </p>
+              {entry.body !== undefined && (
+                <pre className="rounded bg-muted p-2 text-xs overflow-x-auto">
+                  {JSON.stringify(entry.body, null, 2)}
+                </pre>
+              )}
+            </li>
+          ))}
+        </ol>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={download}
+            disabled={entries.length === 0}
+            className="gap-1.5"
+          >
+            <Download className="w-4 h-4" />
+            Download report
+          </Button>
+          <Button onClick={() => onOpenChange(false)}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
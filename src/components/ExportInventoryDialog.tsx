@@ -0,0 +1,195 @@
+import { useEffect, useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { downloadBlob } from "@/lib/backup";
+import type { Repository } from "@/lib/github";
+import {
+  DEFAULT_INVENTORY_FIELDS,
+  formatInventory,
+  INVENTORY_EXTENSIONS,
+  INVENTORY_FIELDS,
+  INVENTORY_MIME_TYPES,
+  type InventoryFormat,
+} from "@/lib/inventory";
+
+interface ExportInventoryDialogProps {
+  /** The repositories to export, already filtered and sorted. */
+  repos: Repository[];
+  /** Used in the downloaded file name, e.g. the account or organization. */
+  owner: string;
+}
+
+interface ExportSettings {
+  format: InventoryFormat;
+  fields: string[];
+}
+
+const STORAGE_KEY = "inventory_export";
+
+function loadSettings(): ExportSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (stored?.format && Array.isArray(stored.fields)) return stored;
+  } catch {
+    // Fall back to the defaults
+  }
+  return { format: "csv", fields: DEFAULT_INVENTORY_FIELDS };
+}
+
+export function ExportInventoryDialog({
+  repos,
+  owner,
+}: ExportInventoryDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [settings, setSettings] = useState(loadSettings);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  const toggleField = (id: string, checked: boolean) =>
+    setSettings((current) => ({
+      ...current,
+      fields: checked
+        ? [...current.fields, id]
+        : current.fields.filter((field) => field !== id),
+    }));
+
+  const exportInventory = () => {
+    const { format, fields } = settings;
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(
+      new Blob([formatInventory(repos, fields, format)], {
+        type: INVENTORY_MIME_TYPES[format],
+      }),
+      `${owner}-repositories-${date}.${INVENTORY_EXTENSIONS[format]}`,
+    );
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="h-9 gap-1.5">
+          <Download className="w-4 h-4" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Export inventory</DialogTitle>
+          <DialogDescription>
+            Downloads the {repos.length} repositories currently shown, with the
+            active search, filters and sort order applied.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Format</p>
+          <RadioGroup
+            value={settings.format}
+            onValueChange={(format) =>
+              setSettings((current) => ({
+                ...current,
+                format: format as InventoryFormat,
+              }))
+            }
+            className="flex gap-4"
+          >
+            {(
+              [
+                ["csv", "CSV"],
+                ["json", "JSON"],
+                ["markdown", "Markdown table"],
+              ] as const
+            ).map(([value, label]) => (
+              <div key={value} className="flex items-center gap-2">
+                <RadioGroupItem value={value} id={`inventory-${value}`} />
+                <Label htmlFor={`inventory-${value}`} className="text-sm">
+                  {label}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium">Columns</p>
+            <div className="flex gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() =>
+                  setSettings((current) => ({
+                    ...current,
+                    fields: INVENTORY_FIELDS.map((f) => f.id),
+                  }))
+                }
+              >
+                All
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() =>
+                  setSettings((current) => ({
+                    ...current,
+                    fields: DEFAULT_INVENTORY_FIELDS,
+                  }))
+                }
+              >
+                Defaults
+              </Button>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2 rounded-md border border-border/50 p-3">
+            {INVENTORY_FIELDS.map((field) => (
+              <div key={field.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`inventory-field-${field.id}`}
+                  checked={settings.fields.includes(field.id)}
+                  onCheckedChange={(checked) =>
+                    toggleField(field.id, checked === true)
+                  }
+                />
+                <Label
+                  htmlFor={`inventory-field-${field.id}`}
+                  className="text-sm"
+                >
+                  {field.label}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={exportInventory}
+            disabled={repos.length === 0 || settings.fields.length === 0}
+          >
+            Download
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,225 @@
+import { useMemo, useRef, useState } from "react";
+import { FileInput, Upload } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { canAdminister, type Repository } from "@/lib/github";
+import { matchRepoList, parseRepoList } from "@/lib/repo-list";
+
+interface ImportListDialogProps {
+  repos: Repository[];
+  /** Why a repository is locked against deletion, or null. */
+  lockedReason: (repo: Repository) => string | null;
+  /** Called with the matched repositories that can be selected. */
+  onSelect: (repos: Repository[]) => void;
+}
+
+export function ImportListDialog({
+  repos,
+  lockedReason,
+  onSelect,
+}: ImportListDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [source, setSource] = useState("");
+  // Suggestions accepted for unmatched entries, keyed by entry
+  const [accepted, setAccepted] = useState<Map<string, Repository>>(
+    () => new Map(),
+  );
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const result = useMemo(
+    () => matchRepoList(parseRepoList(source), repos),
+    [source, repos],
+  );
+
+  const matches = useMemo(() => {
+    const rows = [
+      ...result.matched,
+      ...result.unmatched
+        .filter((miss) => accepted.has(miss.entry))
+        .map((miss) => ({ entry: miss.entry, repo: accepted.get(miss.entry) })),
+    ];
+    const unique = new Map(rows.map((row) => [row.repo.id, row]));
+    return Array.from(unique.values()).map((match) => ({
+      ...match,
+      blockedBy:
+        lockedReason(match.repo) ??
+        (canAdminister(match.repo) ? null : "Requires admin rights"),
+    }));
+  }, [result, accepted, lockedReason]);
+
+  const unmatched = result.unmatched.filter(
+    (miss) => !accepted.has(miss.entry),
+  );
+  const selectable = matches.filter((match) => !match.blockedBy);
+
+  const accept = (entry: string, repo: Repository) =>
+    setAccepted((prev) => new Map(prev).set(entry, repo));
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setSource("");
+      setAccepted(new Map());
+    }
+  };
+
+  const select = () => {
+    onSelect(selectable.map((match) => match.repo));
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 text-xs gap-1.5">
+          <FileInput className="w-3.5 h-3.5" />
+          Select from list
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Select repositories from a list</DialogTitle>
+          <DialogDescription>
+            Paste names, <code>owner/name</code> or repository URLs one per
+            line, or upload a CSV with a <code>full_name</code>,{" "}
+            <code>repository</code> or <code>name</code> column. Matches replace
+            the current selection so they can be reviewed, archived or deleted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Textarea
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+            spellCheck={false}
+            rows={8}
+            placeholder={
+              "my-old-project\nocto-org/legacy-api\nhttps://github.com/octo-org/prototype"
+            }
+            className="font-mono text-xs"
+            aria-label="Repository list"
+          />
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.tsv,.txt"
+            className="hidden"
+            onChange={async (e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) setSource(await file.text());
+            }}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 gap-1.5"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="w-3.5 h-3.5" />
+            Upload file
+          </Button>
+        </div>
+
+        {(matches.length > 0 || unmatched.length > 0) && (
+          <p className="text-sm font-medium">
+            {matches.length} matched, {unmatched.length} not found
+          </p>
+        )}
+
+        {unmatched.length > 0 && (
+          <div className="space-y-2 rounded-md border border-destructive/30 p-3">
+            {unmatched.map(({ entry, suggestions, ambiguous }) => (
+              <div
+                key={entry}
+                className="flex flex-wrap items-center gap-2 text-sm"
+              >
+                <span className="font-mono text-xs">{entry}</span>
+                <span className="text-xs text-muted-foreground">
+                  {ambiguous
+                    ? "matches several owners:"
+                    : suggestions.length > 0
+                      ? "not found, did you mean"
+                      : "not found"}
+                </span>
+                {suggestions.map((repo) => (
+                  <Button
+                    key={repo.id}
+                    variant="secondary"
+                    size="sm"
+                    className="h-6 px-2 text-xs font-mono"
+                    onClick={() => accept(entry, repo)}
+                  >
+                    {repo.full_name}
+                  </Button>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {matches.length > 0 && (
+          <div className="max-h-72 overflow-auto rounded-md border border-border/50">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Entry</TableHead>
+                  <TableHead>Repository</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {matches.map(({ entry, repo, blockedBy }) => (
+                  <TableRow key={repo.id}>
+                    <TableCell className="py-2 font-mono text-xs text-muted-foreground">
+                      {entry}
+                    </TableCell>
+                    <TableCell className="py-2 font-medium">
+                      {repo.full_name}
+                      {repo.archived && (
+                        <Badge variant="secondary" className="ml-2 text-xs">
+                          Archived
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="py-2 text-xs text-muted-foreground">
+                      {blockedBy ?? "Ready"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={select} disabled={selectable.length === 0}>
+            Select {selectable.length}{" "}
+            {selectable.length === 1 ? "repository" : "repositories"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
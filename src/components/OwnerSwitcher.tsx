@@ -0,0 +1,108 @@
+import { Building2 } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+} from "@/components/ui/select";
+import type { GitHubOrg, GitHubUser } from "@/lib/github";
+
+interface OwnerSwitcherProps {
+  user: GitHubUser;
+  orgs: GitHubOrg[];
+  /** Selected org login, or null for the authenticated user. */
+  value: string | null;
+  onChange: (org: string | null) => void;
+  disabled?: boolean;
+}
+
+function OwnerLabel({
+  login,
+  name,
+  avatarUrl,
+  isOrg,
+}: {
+  login: string;
+  name: string;
+  avatarUrl: string;
+  isOrg: boolean;
+}) {
+  return (
+    <div className="flex items-center gap-1.5 sm:gap-2 min-w-0">
+      <Avatar className="w-4 h-4 sm:w-5 sm:h-5 border border-primary/20">
+        <AvatarImage src={avatarUrl} alt={login} />
+        <AvatarFallback className="text-xs">
+          {login ? login[0].toUpperCase() : "U"}
+        </AvatarFallback>
+      </Avatar>
+      <span className="text-xs sm:text-sm font-medium text-foreground truncate">
+        {name}
+      </span>
+      {isOrg && (
+        <Building2 className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
+      )}
+    </div>
+  );
+}
+
+const USER_VALUE = "__user__";
+
+export function OwnerSwitcher({
+  user,
+  orgs,
+  value,
+  onChange,
+  disabled = false,
+}: OwnerSwitcherProps) {
+  const userLabel = (
+    <OwnerLabel
+      login={user.login}
+      name={user.name || user.login}
+      avatarUrl={user.avatar_url}
+      isOrg={false}
+    />
+  );
+
+  if (orgs.length === 0) {
+    return <div className="mt-0.5">{userLabel}</div>;
+  }
+
+  const selectedOrg = orgs.find((org) => org.login === value);
+
+  return (
+    <Select
+      value={value ?? USER_VALUE}
+      onValueChange={(next) => onChange(next === USER_VALUE ? null : next)}
+      disabled={disabled}
+    >
+      <SelectTrigger className="h-7 mt-0.5 px-1.5 gap-1.5 border-none bg-transparent shadow-none w-auto max-w-[220px] focus:ring-0">
+        {selectedOrg ? (
+          <OwnerLabel
+            login={selectedOrg.login}
+            name={selectedOrg.login}
+            avatarUrl={selectedOrg.avatar_url}
+            isOrg
+          />
+        ) : (
+          userLabel
+        )}
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={USER_VALUE}>{userLabel}</SelectItem>
+        <SelectSeparator />
+        {orgs.map((org) => (
+          <SelectItem key={org.login} value={org.login}>
+            <OwnerLabel
+              login={org.login}
+              name={org.login}
+              avatarUrl={org.avatar_url}
+              isOrg
+            />
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,121 @@
+import { useEffect, useState } from "react";
+import { Timer, Trash2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { PendingDeletion } from "@/hooks/use-pending-deletions";
+
+function useSecondsLeft(executeAt: number) {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+  return Math.max(0, Math.ceil((executeAt - now) / 1000));
+}
+
+export function UndoCountdown({
+  name,
+  executeAt,
+}: {
+  name: string;
+  executeAt: number;
+}) {
+  const secondsLeft = useSecondsLeft(executeAt);
+  return (
+    <span>
+      {secondsLeft > 0
+        ? `${name} will be deleted in ${secondsLeft}s`
+        : `Deleting ${name}...`}
+    </span>
+  );
+}
+
+function PendingCountdown({ executeAt }: { executeAt: number }) {
+  const secondsLeft = useSecondsLeft(executeAt);
+  return <>{secondsLeft > 0 ? `in ${secondsLeft}s` : "deleting..."}</>;
+}
+
+function PendingStatus({
+  entry,
+  dryRun,
+}: {
+  entry: PendingDeletion;
+  dryRun: boolean;
+}) {
+  if (dryRun && !entry.simulated) return <>paused until dry run ends</>;
+  if (entry.held) return <>overdue, waiting for confirmation</>;
+  return <PendingCountdown executeAt={entry.executeAt} />;
+}
+
+interface PendingDeletionsBarProps {
+  pending: PendingDeletion[];
+  onUndo: (repoId: number) => void;
+  onUndoAll: () => void;
+  onCommitAll: () => void;
+  /** Real deletions don't run while dry run is on. */
+  dryRun: boolean;
+}
+
+export function PendingDeletionsBar({
+  pending,
+  onUndo,
+  onUndoAll,
+  onCommitAll,
+  dryRun,
+}: PendingDeletionsBarProps) {
+  if (pending.length === 0) return null;
+
+  return (
+    <div className="mb-6 rounded-lg border border-destructive/40 bg-destructive/5 p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <Timer className="w-4 h-4 text-destructive" />
+        <p className="text-sm font-medium">
+          {pending.length} pending{" "}
+          {pending.length === 1 ? "deletion" : "deletions"}
+        </p>
+        <div className="ml-auto flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onUndoAll}
+            className="h-8 text-xs gap-1.5"
+          >
+            <Undo2 className="w-3.5 h-3.5" />
+            Undo all
+          </Button>
+          <Button
+            size="sm"
+            onClick={onCommitAll}
+            className="h-8 text-xs gap-1.5 bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            Delete now
+          </Button>
+        </div>
+      </div>
+      {pending.some((entry) => entry.held) && (
+        <p className="text-xs text-muted-foreground">
+          Some deletions came due while Repo Cleaner was closed. They only run
+          once you choose Delete now; undo any you no longer want.
+        </p>
+      )}
+      <ul className="space-y-1.5 text-sm">
+        {pending.map((entry) => (
+          <li key={entry.repo.id} className="flex items-center gap-2">
+            <span className="font-mono truncate">{entry.repo.full_name}</span>
+            <span className="text-xs text-muted-foreground">
+              <PendingStatus entry={entry} dryRun={dryRun} />
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onUndo(entry.repo.id)}
+              className="ml-auto h-7 text-xs"
+            >
+              Undo
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Download, ListChecks, Upload } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { downloadBlob } from "@/lib/backup";
+import { canAdminister, type Repository } from "@/lib/github";
+import {
+  evaluatePolicies,
+  EXAMPLE_POLICIES,
+  parsePolicies,
+  serializePolicies,
+  type CleanupPolicy,
+  type PolicyMatch,
+} from "@/lib/policies";
+
+interface PoliciesDialogProps {
+  repos: Repository[];
+  /** Why a repository is locked against deletion, or null. */
+  lockedReason: (repo: Repository) => string | null;
+  /** Called with the matches that can run once the preview is accepted. */
+  onApply: (matches: PolicyMatch[]) => void;
+}
+
+const STORAGE_KEY = "cleanup_policies";
+
+export function PoliciesDialog({
+  repos,
+  lockedReason,
+  onApply,
+}: PoliciesDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [source, setSource] = useState(
+    () => localStorage.getItem(STORAGE_KEY) ?? EXAMPLE_POLICIES,
+  );
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, source);
+  }, [source]);
+
+  const parsed = useMemo(() => {
+    try {
+      return { policies: parsePolicies(source), error: null };
+    } catch (error) {
+      return {
+        policies: [] as CleanupPolicy[],
+        error: error instanceof Error ? error.message : "Invalid policy file",
+      };
+    }
+  }, [source]);
+
+  const preview = useMemo(() => {
+    if (!open) return [];
+    return evaluatePolicies(repos, parsed.policies).map((match) => {
+      const locked =
+        match.action === "delete" ? lockedReason(match.repo) : null;
+      const blockedBy =
+        locked ?? (canAdminister(match.repo) ? null : "Requires admin rights");
+      return { ...match, blockedBy };
+    });
+  }, [open, repos, parsed.policies, lockedReason]);
+
+  const runnable = preview.filter((match) => !match.blockedBy);
+  const deletions = runnable.filter((m) => m.action === "delete").length;
+  const archives = runnable.length - deletions;
+
+  const importFile = async (file: File) => {
+    const text = await file.text();
+    try {
+      parsePolicies(text);
+      setSource(text);
+      toast({ title: "Policies imported", description: file.name });
+    } catch (error) {
+      toast({
+        title: "Could not import policies",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const exportPolicies = (format: "json" | "yaml") => {
+    const text = serializePolicies(parsed.policies, format);
+    downloadBlob(
+      new Blob([text], {
+        type: format === "json" ? "application/json" : "application/yaml",
+      }),
+      `cleanup-policies.${format === "json" ? "json" : "yaml"}`,
+    );
+  };
+
+  const apply = () => {
+    onApply(runnable);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" aria-label="Cleanup policies">
+          <ListChecks className="h-5 w-5" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Cleanup policies</DialogTitle>
+          <DialogDescription>
+            Describe which repositories to delete or archive in YAML or JSON.
+            Matches are previewed below; nothing changes until you apply them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Textarea
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+            spellCheck={false}
+            rows={12}
+            className="font-mono text-xs"
+            aria-label="Policy definitions"
+          />
+          {parsed.error && (
+            <p className="text-sm text-destructive">{parsed.error}</p>
+          )}
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.yaml,.yml"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importFile(file);
+                e.target.value = "";
+              }}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 gap-1.5"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Upload className="w-3.5 h-3.5" />
+              Import
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 gap-1.5"
+              disabled={!!parsed.error}
+              onClick={() => exportPolicies("yaml")}
+            >
+              <Download className="w-3.5 h-3.5" />
+              Export YAML
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 gap-1.5"
+              disabled={!!parsed.error}
+              onClick={() => exportPolicies("json")}
+            >
+              <Download className="w-3.5 h-3.5" />
+              Export JSON
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 text-xs"
+              onClick={() => setSource(EXAMPLE_POLICIES)}
+            >
+              Load example
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">
+            Dry run: {preview.length} of {repos.length} repositories matched
+          </p>
+          {preview.length > 0 && (
+            <div className="max-h-72 overflow-auto rounded-md border border-border/50">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Repository</TableHead>
+                    <TableHead>Policy</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.map(({ repo, policy, action, blockedBy }) => (
+                    <TableRow key={repo.id}>
+                      <TableCell className="py-2 font-medium">
+                        {repo.full_name}
+                      </TableCell>
+                      <TableCell className="py-2 text-muted-foreground">
+                        {policy.name}
+                      </TableCell>
+                      <TableCell className="py-2">
+                        <Badge
+                          variant={
+                            action === "delete" ? "destructive" : "secondary"
+                          }
+                          className="text-xs capitalize"
+                        >
+                          {action}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="py-2 text-xs text-muted-foreground">
+                        {blockedBy ?? "Ready"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Close
+          </Button>
+          <Button onClick={apply} disabled={runnable.length === 0}>
+            Apply: archive {archives}, delete {deletions}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,85 @@
+import { useEffect, useState } from "react";
+import { Gauge, Hourglass } from "lucide-react";
+import { format } from "date-fns";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import type { RateLimitStatus } from "@/lib/github";
+
+interface RateLimitProps {
+  status: RateLimitStatus;
+}
+
+function useNow(active: boolean) {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!active) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [active]);
+  return now;
+}
+
+function formatDuration(ms: number) {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+export function RateLimitMeter({ status }: RateLimitProps) {
+  const { rateLimit } = status;
+  if (!rateLimit) return null;
+
+  const ratio = rateLimit.limit > 0 ? rateLimit.remaining / rateLimit.limit : 0;
+  const tone =
+    ratio > 0.25
+      ? "text-primary"
+      : ratio > 0.05
+        ? "text-amber-600 dark:text-amber-400"
+        : "text-destructive";
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div
+          className={`hidden md:flex items-center gap-1.5 px-2.5 h-9 rounded-md border border-border/50 text-xs font-medium ${tone}`}
+        >
+          <Gauge className="w-4 h-4" />
+          <span>
+            {rateLimit.remaining.toLocaleString()} /{" "}
+            {rateLimit.limit.toLocaleString()}
+          </span>
+        </div>
+      </TooltipTrigger>
+      <TooltipContent>
+        REST API quota remaining; resets at{" "}
+        {format(new Date(rateLimit.resetAt), "HH:mm:ss")}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+export function RateLimitBanner({ status }: RateLimitProps) {
+  const now = useNow(status.waitingUntil !== null);
+  if (status.waitingUntil === null) return null;
+
+  return (
+    <div className="mb-6 flex items-start gap-3 rounded-lg border border-amber-500/40 bg-amber-500/10 p-4 text-sm">
+      <Hourglass className="w-4 h-4 mt-0.5 shrink-0 text-amber-600 dark:text-amber-400" />
+      <div>
+        <p className="font-medium">
+          {status.reason === "secondary"
+            ? "GitHub asked us to slow down"
+            : "GitHub API rate limit reached"}
+        </p>
+        <p className="text-muted-foreground">
+          Requests are paused and will resume automatically in{" "}
+          {formatDuration(status.waitingUntil - now)}. Nothing has failed —
+          loading and bulk actions continue where they left off.
+        </p>
+      </div>
+    </div>
+  );
+}
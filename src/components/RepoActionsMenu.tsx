@@ -0,0 +1,89 @@
+import {
+  Archive,
+  ArchiveRestore,
+  ArrowRightLeft,
+  Globe,
+  Lock,
+  MoreVertical,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { Repository } from "@/lib/github";
+
+interface RepoActionsMenuProps {
+  repo: Repository;
+  onToggleArchived?: (repo: Repository) => void;
+  onToggleVisibility?: (repo: Repository) => void;
+  onTransfer?: (repo: Repository) => void;
+  disabled?: boolean;
+  /** Smaller ghost trigger for table rows. */
+  compact?: boolean;
+}
+
+/** The archive, visibility and transfer actions shared by cards and rows. */
+export function RepoActionsMenu({
+  repo,
+  onToggleArchived,
+  onToggleVisibility,
+  onTransfer,
+  disabled = false,
+  compact = false,
+}: RepoActionsMenuProps) {
+  if (!onToggleArchived && !onToggleVisibility && !onTransfer) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant={compact ? "ghost" : "outline"}
+          size="icon"
+          className={compact ? "h-8 w-8" : undefined}
+          disabled={disabled}
+          aria-label="More actions"
+        >
+          <MoreVertical className="w-4 h-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {onToggleArchived && (
+          <DropdownMenuItem onClick={() => onToggleArchived(repo)}>
+            {repo.archived ? (
+              <ArchiveRestore className="w-4 h-4 mr-2" />
+            ) : (
+              <Archive className="w-4 h-4 mr-2" />
+            )}
+            {repo.archived ? "Unarchive" : "Archive"}
+          </DropdownMenuItem>
+        )}
+        {onToggleVisibility && (
+          <DropdownMenuItem
+            onClick={() => onToggleVisibility(repo)}
+            disabled={repo.archived}
+          >
+            {repo.private ? (
+              <Globe className="w-4 h-4 mr-2" />
+            ) : (
+              <Lock className="w-4 h-4 mr-2" />
+            )}
+            {repo.private ? "Make public" : "Make private"}
+          </DropdownMenuItem>
+        )}
+        {onTransfer && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => onTransfer(repo)}>
+              <ArrowRightLeft className="w-4 h-4 mr-2" />
+              Transfer ownership
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,4 +1,20 @@
-import { GitFork, Star, Trash2, ExternalLink, Clock } from "lucide-react";
+import {
+  GitFork,
+  Star,
+  Trash2,
+  ExternalLink,
+  Clock,
+  GitCompare,
+  Loader2,
+  ShieldCheck,
+  HardDrive,
+  CircleDot,
+  GitPullRequest,
+  GitBranch,
+  Tag,
+  GitCommitHorizontal,
+  FlaskConical,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -8,36 +24,72 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { formatDistanceToNow } from "date-fns";
-
-interface Repository {
-  id: number;
-  name: string;
-  full_name: string;
-  description: string | null;
-  html_url: string;
-  stargazers_count: number;
-  forks_count: number;
-  language: string | null;
-  private: boolean;
-  fork: boolean;
-  updated_at: string;
-}
+import {
+  formatDiskUsage,
+  type ForkDivergence,
+  type Repository,
+} from "@/lib/github";
+import { RepoActionsMenu } from "./RepoActionsMenu";
 
 interface RepoCardProps {
   repo: Repository;
   onDelete: (repo: Repository) => void;
+  onToggleArchived?: (repo: Repository) => void;
+  onToggleVisibility?: (repo: Repository) => void;
+  onTransfer?: (repo: Repository) => void;
+  busy?: boolean;
+  /** False when the token lacks admin rights on this repository. */
+  canAdmin?: boolean;
+  /** Undefined while loading, null when the comparison failed. */
+  divergence?: ForkDivergence | null;
+  /** Why the repository is locked against deletion, if it is. */
+  protectedBy?: string | null;
+  /** Actions simulated for this repository during a dry run. */
+  simulated?: string[];
+  selected?: boolean;
+  onSelectedChange?: (selected: boolean) => void;
 }
 
-export function RepoCard({ repo, onDelete }: RepoCardProps) {
+export function RepoCard({
+  repo,
+  onDelete,
+  onToggleArchived,
+  onToggleVisibility,
+  onTransfer,
+  busy = false,
+  canAdmin = true,
+  divergence,
+  protectedBy = null,
+  simulated,
+  selected = false,
+  onSelectedChange,
+}: RepoCardProps) {
   const lastUpdated = formatDistanceToNow(new Date(repo.updated_at), {
     addSuffix: true,
   });
+  const lastCommit = repo.last_commit_at
+    ? formatDistanceToNow(new Date(repo.last_commit_at), { addSuffix: true })
+    : null;
+  // Issue and pull request counts are only separated in GraphQL results
+  const hasActivityCounts = repo.open_pull_requests_count !== undefined;
 
   return (
-    <Card className="group hover:shadow-lg transition-all duration-300 hover:border-primary/50 bg-card/50 backdrop-blur-sm animate-fade-in flex flex-col h-full">
+    <Card
+      className={`group hover:shadow-lg transition-all duration-300 hover:border-primary/50 bg-card/50 backdrop-blur-sm animate-fade-in flex flex-col h-full ${selected ? "border-primary ring-1 ring-primary/40" : ""} ${simulated ? "border-dashed border-sky-500/60" : ""}`}
+    >
       <CardHeader className="pb-3">
         <div className="flex items-start justify-between gap-3">
+          {onSelectedChange && (
+            <Checkbox
+              checked={selected}
+              disabled={!canAdmin || !!protectedBy}
+              onCheckedChange={(checked) => onSelectedChange(checked === true)}
+              aria-label={`Select ${repo.full_name}`}
+              className="mt-1.5 shrink-0"
+            />
+          )}
           <div className="flex-1 min-w-0">
             <CardTitle className="text-lg flex items-center gap-2 group-hover:text-primary transition-colors">
               <a
@@ -69,19 +121,118 @@ export function RepoCard({ repo, onDelete }: RepoCardProps) {
                   Fork
                 </Badge>
               )}
+              {protectedBy && (
+                <Badge
+                  variant="outline"
+                  title={protectedBy}
+                  className="text-xs gap-1 border-primary/30 text-primary"
+                >
+                  <ShieldCheck className="w-3 h-3" />
+                  Protected
+                </Badge>
+              )}
+              {simulated && (
+                <Badge
+                  variant="outline"
+                  title={simulated.join(", ")}
+                  className="text-xs gap-1 border-sky-500/50 text-sky-600 dark:text-sky-400"
+                >
+                  <FlaskConical className="w-3 h-3" />
+                  Simulated: {simulated[simulated.length - 1]}
+                </Badge>
+              )}
+              {repo.default_branch_protected && (
+                <Badge
+                  variant="outline"
+                  title={`Branch protection is enabled on ${repo.default_branch}`}
+                  className="text-xs gap-1"
+                >
+                  <GitBranch className="w-3 h-3" />
+                  Branch protected
+                </Badge>
+              )}
+              {repo.archived && (
+                <Badge
+                  variant="outline"
+                  className="text-xs border-amber-500/40 text-amber-600 dark:text-amber-400"
+                >
+                  Archived
+                </Badge>
+              )}
             </div>
+            {repo.fork && (
+              <div className="flex items-center gap-1.5 mt-1.5 text-xs">
+                {divergence === undefined ? (
+                  <>
+                    <Loader2 className="w-3.5 h-3.5 animate-spin text-muted-foreground" />
+                    <span className="text-muted-foreground">
+                      Comparing with upstream...
+                    </span>
+                  </>
+                ) : divergence === null ? (
+                  <>
+                    <GitCompare className="w-3.5 h-3.5 text-muted-foreground" />
+                    <span className="text-muted-foreground">
+                      Divergence unknown
+                    </span>
+                  </>
+                ) : (
+                  <>
+                    <GitCompare className="w-3.5 h-3.5 text-muted-foreground" />
+                    <span
+                      title={`Compared with ${divergence.parentFullName}, ${divergence.behindBy} behind`}
+                      className={
+                        divergence.aheadBy === 0
+                          ? "text-primary font-medium"
+                          : "text-amber-600 dark:text-amber-400 font-medium"
+                      }
+                    >
+                      {divergence.aheadBy === 0
+                        ? "0 ahead — safe to delete"
+                        : `${divergence.aheadBy} commit${divergence.aheadBy === 1 ? "" : "s"} ahead`}
+                    </span>
+                  </>
+                )}
+              </div>
+            )}
             <CardDescription className="mt-1.5 line-clamp-2">
               {repo.description || "No description provided"}
             </CardDescription>
+            {repo.topics && repo.topics.length > 0 && (
+              <div className="flex items-center gap-1 mt-2 flex-wrap">
+                {repo.topics.map((topic) => (
+                  <Badge
+                    key={topic}
+                    variant="secondary"
+                    className="text-[10px] px-1.5 py-0 font-normal"
+                  >
+                    {topic}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="flex items-center gap-1.5 shrink-0">
+            <RepoActionsMenu
+              repo={repo}
+              onToggleArchived={onToggleArchived}
+              onToggleVisibility={onToggleVisibility}
+              onTransfer={onTransfer}
+              disabled={busy || !canAdmin}
+            />
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => onDelete(repo)}
+              disabled={busy || !canAdmin || !!protectedBy}
+              title={
+                protectedBy ?? (canAdmin ? undefined : "Requires admin rights")
+              }
+              className="hover:bg-destructive hover:text-destructive-foreground hover:border-destructive transition-all"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
           </div>
-          <Button
-            variant="outline"
-            size="icon"
-            onClick={() => onDelete(repo)}
-            className="hover:bg-destructive hover:text-destructive-foreground hover:border-destructive transition-all shrink-0"
-          >
-            <Trash2 className="w-4 h-4" />
-          </Button>
         </div>
       </CardHeader>
       <CardContent className="pt-0 space-y-3 mt-auto">
@@ -100,10 +251,44 @@ export function RepoCard({ repo, onDelete }: RepoCardProps) {
             <GitFork className="w-4 h-4" />
             <span>{repo.forks_count}</span>
           </div>
+          {hasActivityCounts && (
+            <>
+              <div className="flex items-center gap-1.5" title="Open issues">
+                <CircleDot className="w-4 h-4" />
+                <span>{repo.open_issues_count ?? 0}</span>
+              </div>
+              <div
+                className="flex items-center gap-1.5"
+                title="Open pull requests"
+              >
+                <GitPullRequest className="w-4 h-4" />
+                <span>{repo.open_pull_requests_count}</span>
+              </div>
+            </>
+          )}
+          <div className="flex items-center gap-1.5" title="Disk usage">
+            <HardDrive className="w-4 h-4" />
+            <span>{formatDiskUsage(repo.size)}</span>
+          </div>
+          {repo.latest_release && (
+            <div
+              className="flex items-center gap-1.5 min-w-0"
+              title="Latest release"
+            >
+              <Tag className="w-4 h-4 shrink-0" />
+              <span className="truncate">{repo.latest_release.tag_name}</span>
+            </div>
+          )}
         </div>
         <div className="flex items-center gap-1.5 text-xs text-muted-foreground/80 pt-2 border-t border-border/50">
           <Clock className="w-3.5 h-3.5" />
           <span>Updated {lastUpdated}</span>
+          {lastCommit && (
+            <>
+              <GitCommitHorizontal className="w-3.5 h-3.5 ml-2" />
+              <span>Last commit {lastCommit}</span>
+            </>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,109 @@
+import { CloudDownload, Database, Loader2, Play, X } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import type { UseQueryResult } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import type { ListResult, Repository } from "@/lib/github";
+
+interface RepoFetchStatusProps {
+  query: UseQueryResult<ListResult<Repository>>;
+  /** Stops a load in progress, keeping the pages loaded so far. */
+  onCancel: () => void;
+}
+
+/**
+ * Tells whether the repository list came from cache or from GitHub, and
+ * shows progress while a first load is still streaming in.
+ */
+export function RepoFetchStatus({ query, onCancel }: RepoFetchStatusProps) {
+  const { data, dataUpdatedAt, isFetching } = query;
+  if (!data) return null;
+
+  if (data.partial) {
+    const loaded = data.items.length;
+    const counts = data.total
+      ? `${loaded} of ${data.total} repositories`
+      : `${loaded} repositories`;
+    return (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        {isFetching ? (
+          <>
+            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            <span>
+              Loading {counts} ({data.pages}{" "}
+              {data.pages === 1 ? "page" : "pages"})
+            </span>
+            {data.total ? (
+              <Progress
+                value={(loaded / data.total) * 100}
+                className="h-1.5 w-24"
+              />
+            ) : null}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onCancel}
+              className="h-7 px-2 text-xs"
+            >
+              <X className="w-3.5 h-3.5 mr-1" />
+              Cancel
+            </Button>
+          </>
+        ) : (
+          <>
+            <span>Stopped after {counts}</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => query.refetch()}
+              className="h-7 px-2 text-xs"
+            >
+              <Play className="w-3.5 h-3.5 mr-1" />
+              Load all
+            </Button>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  const age = formatDistanceToNow(dataUpdatedAt, { addSuffix: true });
+  const fromCache = data.pages > 0 && data.notModifiedPages === data.pages;
+  const api = data.source === "graphql" ? "GraphQL" : "REST";
+
+  let icon = <CloudDownload className="w-3.5 h-3.5" />;
+  let label = `Fetched ${age} via ${api}`;
+  let detail = `${data.pages} ${data.pages === 1 ? "page" : "pages"} downloaded from the ${api} API`;
+  if (isFetching) {
+    icon = <Loader2 className="w-3.5 h-3.5 animate-spin" />;
+    label = `Cached snapshot from ${age}`;
+    detail = "Checking GitHub for changes...";
+  } else if (fromCache) {
+    icon = <Database className="w-3.5 h-3.5" />;
+    label = `Unchanged, served from cache ${age}`;
+    detail =
+      "GitHub answered 304 Not Modified for every page, which doesn't count against the rate limit";
+    if (data.source === "graphql" && data.detailsFetchedAt) {
+      detail += `. Pull request, release and protection details are from ${formatDistanceToNow(data.detailsFetchedAt, { addSuffix: true })}`;
+    }
+  } else if (data.notModifiedPages > 0) {
+    detail = `${data.notModifiedPages} of ${data.pages} pages unchanged and served from cache`;
+  }
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          {icon}
+          {label}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent>{detail}</TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,438 @@
+import { useEffect, useRef, useState, type PointerEvent } from "react";
+import { ArrowDown, ArrowUp, Columns3, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useWindowedRows } from "@/hooks/use-windowed-rows";
+import {
+  canAdminister,
+  formatDiskUsage,
+  type ForkDivergence,
+  type Repository,
+} from "@/lib/github";
+import { RepoActionsMenu } from "./RepoActionsMenu";
+
+export type RepoSortKey =
+  | "name"
+  | "updated"
+  | "stars"
+  | "forks"
+  | "language"
+  | "issues"
+  | "size"
+  | "last_commit";
+
+type ColumnId =
+  | "name"
+  | "visibility"
+  | "status"
+  | "language"
+  | "stars"
+  | "forks"
+  | "issues"
+  | "pulls"
+  | "size"
+  | "upstream"
+  | "updated"
+  | "last_commit"
+  | "topics";
+
+interface RepoColumn {
+  id: ColumnId;
+  label: string;
+  width: number;
+  sortKey?: RepoSortKey;
+  hiddenByDefault?: boolean;
+}
+
+const COLUMNS: RepoColumn[] = [
+  { id: "name", label: "Repository", width: 260, sortKey: "name" },
+  { id: "visibility", label: "Visibility", width: 100 },
+  { id: "status", label: "Status", width: 160 },
+  { id: "language", label: "Language", width: 120, sortKey: "language" },
+  { id: "stars", label: "Stars", width: 80, sortKey: "stars" },
+  { id: "forks", label: "Forks", width: 80, sortKey: "forks" },
+  { id: "issues", label: "Issues", width: 80, sortKey: "issues" },
+  { id: "pulls", label: "PRs", width: 70 },
+  { id: "size", label: "Size", width: 90, sortKey: "size" },
+  { id: "upstream", label: "Upstream", width: 130 },
+  { id: "updated", label: "Updated", width: 140, sortKey: "updated" },
+  {
+    id: "last_commit",
+    label: "Last commit",
+    width: 140,
+    sortKey: "last_commit",
+  },
+  { id: "topics", label: "Topics", width: 220, hiddenByDefault: true },
+];
+
+const ROW_HEIGHT = 44;
+const MIN_COLUMN_WIDTH = 60;
+const SELECT_COLUMN_WIDTH = 44;
+const ACTIONS_COLUMN_WIDTH = 88;
+
+interface TableLayout {
+  widths: Partial<Record<ColumnId, number>>;
+  hidden: ColumnId[];
+}
+
+function loadLayout(storageKey: string): TableLayout {
+  const defaults: TableLayout = {
+    widths: {},
+    hidden: COLUMNS.filter((c) => c.hiddenByDefault).map((c) => c.id),
+  };
+  try {
+    const stored = localStorage.getItem(storageKey);
+    if (stored) return { ...defaults, ...JSON.parse(stored) };
+  } catch {
+    // Corrupt value; fall back to defaults
+  }
+  return defaults;
+}
+
+function relativeDate(date: string | null | undefined) {
+  return date ? formatDistanceToNow(new Date(date), { addSuffix: true }) : "—";
+}
+
+interface RepoTableProps {
+  repos: Repository[];
+  sortBy: RepoSortKey;
+  sortOrder: "asc" | "desc";
+  onSortChange: (sortBy: RepoSortKey, sortOrder: "asc" | "desc") => void;
+  selectedIds: Set<number>;
+  onSelectedChange: (repo: Repository, selected: boolean) => void;
+  busyIds: Set<number>;
+  /** Missing while loading, null when the comparison failed. */
+  divergence: Record<number, ForkDivergence | null>;
+  /** Why a repository is locked against deletion, or null. */
+  lockedReason: (repo: Repository) => string | null;
+  onDelete: (repo: Repository) => void;
+  onToggleArchived: (repo: Repository) => void;
+  onToggleVisibility: (repo: Repository) => void;
+  onTransfer: (repo: Repository) => void;
+  /** Where column widths and visibility are remembered. */
+  storageKey: string;
+  /** Actions simulated during a dry run, keyed by full name. */
+  simulated?: Map<string, string[]>;
+}
+
+/**
+ * Dense, sortable table of repositories. Only the rows in view are rendered,
+ * so it stays responsive with thousands of repositories.
+ */
+export function RepoTable({
+  repos,
+  sortBy,
+  sortOrder,
+  onSortChange,
+  selectedIds,
+  onSelectedChange,
+  busyIds,
+  divergence,
+  lockedReason,
+  onDelete,
+  onToggleArchived,
+  onToggleVisibility,
+  onTransfer,
+  storageKey,
+  simulated,
+}: RepoTableProps) {
+  const [layout, setLayout] = useState(() => loadLayout(storageKey));
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const resizing = useRef<{
+    id: ColumnId;
+    startX: number;
+    startWidth: number;
+  } | null>(null);
+  const { start, end, paddingTop, paddingBottom } = useWindowedRows(
+    scrollRef,
+    repos.length,
+    ROW_HEIGHT,
+  );
+
+  useEffect(() => {
+    localStorage.setItem(storageKey, JSON.stringify(layout));
+  }, [storageKey, layout]);
+
+  const columns = COLUMNS.filter((c) => !layout.hidden.includes(c.id));
+  const widthOf = (column: RepoColumn) =>
+    layout.widths[column.id] ?? column.width;
+  const tableWidth =
+    SELECT_COLUMN_WIDTH +
+    ACTIONS_COLUMN_WIDTH +
+    columns.reduce((sum, column) => sum + widthOf(column), 0);
+
+  const toggleColumn = (id: ColumnId, visible: boolean) =>
+    setLayout((prev) => ({
+      ...prev,
+      hidden: visible
+        ? prev.hidden.filter((hidden) => hidden !== id)
+        : [...prev.hidden, id],
+    }));
+
+  const startResize = (event: PointerEvent, column: RepoColumn) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    resizing.current = {
+      id: column.id,
+      startX: event.clientX,
+      startWidth: widthOf(column),
+    };
+  };
+
+  const resize = (event: PointerEvent) => {
+    const current = resizing.current;
+    if (!current) return;
+    const width = Math.max(
+      MIN_COLUMN_WIDTH,
+      current.startWidth + event.clientX - current.startX,
+    );
+    setLayout((prev) => ({
+      ...prev,
+      widths: { ...prev.widths, [current.id]: width },
+    }));
+  };
+
+  const handleSort = (key: RepoSortKey) =>
+    onSortChange(key, sortBy === key && sortOrder === "asc" ? "desc" : "asc");
+
+  const renderCell = (column: RepoColumn, repo: Repository) => {
+    switch (column.id) {
+      case "name":
+        return (
+          <a
+            href={repo.html_url}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={repo.description ?? repo.full_name}
+            className="font-medium text-foreground hover:underline hover:text-primary"
+          >
+            {repo.name}
+          </a>
+        );
+      case "visibility":
+        return repo.private ? "Private" : "Public";
+      case "status": {
+        const locked = lockedReason(repo);
+        const actions = simulated?.get(repo.full_name);
+        return (
+          <div className="flex items-center gap-1">
+            {actions && (
+              <Badge
+                variant="outline"
+                title={actions.join(", ")}
+                className="text-xs border-sky-500/50 text-sky-600 dark:text-sky-400"
+              >
+                Simulated
+              </Badge>
+            )}
+            {repo.fork && (
+              <Badge
+                variant="outline"
+                className="text-xs border-accent/30 text-accent"
+              >
+                Fork
+              </Badge>
+            )}
+            {repo.archived && (
+              <Badge
+                variant="outline"
+                className="text-xs border-amber-500/40 text-amber-600 dark:text-amber-400"
+              >
+                Archived
+              </Badge>
+            )}
+            {locked && (
+              <Badge
+                variant="outline"
+                title={locked}
+                className="text-xs border-primary/30 text-primary"
+              >
+                Protected
+              </Badge>
+            )}
+          </div>
+        );
+      }
+      case "language":
+        return repo.language ?? "—";
+      case "stars":
+        return repo.stargazers_count;
+      case "forks":
+        return repo.forks_count;
+      case "issues":
+        return repo.open_issues_count ?? "—";
+      case "pulls":
+        return repo.open_pull_requests_count ?? "—";
+      case "size":
+        return formatDiskUsage(repo.size);
+      case "upstream": {
+        if (!repo.fork) return "—";
+        const result = divergence[repo.id];
+        if (result === undefined) return "Comparing...";
+        if (result === null) return "Unknown";
+        return `${result.aheadBy} ahead, ${result.behindBy} behind`;
+      }
+      case "updated":
+        return relativeDate(repo.updated_at);
+      case "last_commit":
+        return relativeDate(repo.last_commit_at ?? repo.pushed_at);
+      case "topics":
+        return repo.topics?.join(", ") || "—";
+    }
+  };
+
+  return (
+    <div className="space-y-3 mb-8">
+      <div className="flex justify-end">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="h-8 gap-1.5">
+              <Columns3 className="w-3.5 h-3.5" />
+              Columns
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>Visible columns</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {COLUMNS.filter((c) => c.id !== "name").map((column) => (
+              <DropdownMenuCheckboxItem
+                key={column.id}
+                checked={!layout.hidden.includes(column.id)}
+                onCheckedChange={(checked) => toggleColumn(column.id, checked)}
+                onSelect={(event) => event.preventDefault()}
+              >
+                {column.label}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+      <div
+        ref={scrollRef}
+        className="h-[70vh] overflow-auto rounded-lg border border-border/50 bg-card/50 [&>div]:overflow-visible"
+      >
+        <Table style={{ width: tableWidth, tableLayout: "fixed" }}>
+          <colgroup>
+            <col style={{ width: SELECT_COLUMN_WIDTH }} />
+            {columns.map((column) => (
+              <col key={column.id} style={{ width: widthOf(column) }} />
+            ))}
+            <col style={{ width: ACTIONS_COLUMN_WIDTH }} />
+          </colgroup>
+          <TableHeader className="sticky top-0 z-10 bg-card">
+            <TableRow>
+              <TableHead />
+              {columns.map((column) => (
+                <TableHead key={column.id} className="relative px-3">
+                  {column.sortKey ? (
+                    <button
+                      onClick={() => handleSort(column.sortKey!)}
+                      className="flex items-center gap-1 hover:text-foreground"
+                    >
+                      {column.label}
+                      {sortBy === column.sortKey &&
+                        (sortOrder === "asc" ? (
+                          <ArrowUp className="w-3.5 h-3.5" />
+                        ) : (
+                          <ArrowDown className="w-3.5 h-3.5" />
+                        ))}
+                    </button>
+                  ) : (
+                    column.label
+                  )}
+                  <div
+                    role="separator"
+                    aria-label={`Resize ${column.label} column`}
+                    onPointerDown={(event) => startResize(event, column)}
+                    onPointerMove={resize}
+                    onPointerUp={() => (resizing.current = null)}
+                    className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize touch-none hover:bg-primary/40"
+                  />
+                </TableHead>
+              ))}
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {paddingTop > 0 && <tr style={{ height: paddingTop }} />}
+            {repos.slice(start, end).map((repo) => {
+              const locked = lockedReason(repo);
+              const canAdmin = canAdminister(repo);
+              const busy = busyIds.has(repo.id);
+              return (
+                <TableRow
+                  key={repo.id}
+                  style={{ height: ROW_HEIGHT }}
+                  data-state={selectedIds.has(repo.id) ? "selected" : undefined}
+                >
+                  <TableCell className="py-0 px-3">
+                    <Checkbox
+                      checked={selectedIds.has(repo.id)}
+                      disabled={!canAdmin || !!locked}
+                      onCheckedChange={(checked) =>
+                        onSelectedChange(repo, checked === true)
+                      }
+                      aria-label={`Select ${repo.full_name}`}
+                    />
+                  </TableCell>
+                  {columns.map((column) => (
+                    <TableCell
+                      key={column.id}
+                      className="py-0 px-3 truncate text-muted-foreground"
+                    >
+                      {renderCell(column, repo)}
+                    </TableCell>
+                  ))}
+                  <TableCell className="py-0 px-2">
+                    <div className="flex items-center justify-end gap-1">
+                      <RepoActionsMenu
+                        repo={repo}
+                        onToggleArchived={onToggleArchived}
+                        onToggleVisibility={onToggleVisibility}
+                        onTransfer={onTransfer}
+                        disabled={busy || !canAdmin}
+                        compact
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onDelete(repo)}
+                        disabled={busy || !canAdmin || !!locked}
+                        title={
+                          locked ??
+                          (canAdmin ? undefined : "Requires admin rights")
+                        }
+                        aria-label={`Delete ${repo.full_name}`}
+                        className="h-8 w-8 hover:bg-destructive hover:text-destructive-foreground"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            {paddingBottom > 0 && <tr style={{ height: paddingBottom }} />}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { Lock, Plus, ShieldCheck, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  describeRule,
+  type ProtectionRuleType,
+  type SafeguardSettings,
+} from "@/lib/protection";
+
+interface SafeguardsDialogProps {
+  value: SafeguardSettings;
+  onChange: (value: SafeguardSettings) => void;
+}
+
+const RULE_PLACEHOLDERS: Record<ProtectionRuleType, string> = {
+  name: "octocat/Hello-World",
+  pattern: "*-prod or my-org/*",
+  topic: "production",
+  stars: "10",
+};
+
+export function SafeguardsDialog({ value, onChange }: SafeguardsDialogProps) {
+  const [ruleType, setRuleType] = useState<ProtectionRuleType>("name");
+  const [ruleValue, setRuleValue] = useState("");
+
+  const trimmed = ruleValue.trim();
+  const canAdd =
+    trimmed.length > 0 && (ruleType !== "stars" || /^\d+$/.test(trimmed));
+
+  const addRule = () => {
+    if (!canAdd) return;
+    onChange({
+      ...value,
+      rules: [
+        ...value.rules,
+        { id: crypto.randomUUID(), type: ruleType, value: trimmed },
+      ],
+    });
+    setRuleValue("");
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" aria-label="Safeguards">
+          <ShieldCheck className="h-5 w-5" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Safeguards</DialogTitle>
+          <DialogDescription>
+            Protected repositories can never be deleted or bulk-selected.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-4 rounded-md border border-border/50 p-3">
+          <div>
+            <Label htmlFor="typed-confirmation" className="text-sm font-medium">
+              Type the repository name to confirm
+            </Label>
+            <p className="text-xs text-muted-foreground">
+              Require the full name (owner/repo) before deleting.
+            </p>
+          </div>
+          <Switch
+            id="typed-confirmation"
+            checked={value.confirmation === "typed"}
+            onCheckedChange={(checked) =>
+              onChange({ ...value, confirmation: checked ? "typed" : "click" })
+            }
+          />
+        </div>
+
+        <div className="space-y-3">
+          <p className="text-sm font-medium">Protected repositories</p>
+          {value.rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No protection rules yet.
+            </p>
+          ) : (
+            <ul className="space-y-1.5">
+              {value.rules.map((rule) => (
+                <li
+                  key={rule.id}
+                  className="flex items-center gap-2 rounded-md border border-border/50 px-3 py-1.5 text-sm"
+                >
+                  <Lock className="w-3.5 h-3.5 text-muted-foreground" />
+                  <span className="truncate">{describeRule(rule)}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="ml-auto h-7 w-7"
+                    aria-label="Remove rule"
+                    onClick={() =>
+                      onChange({
+                        ...value,
+                        rules: value.rules.filter((r) => r.id !== rule.id),
+                      })
+                    }
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              addRule();
+            }}
+          >
+            <Select
+              value={ruleType}
+              onValueChange={(type) => setRuleType(type as ProtectionRuleType)}
+            >
+              <SelectTrigger className="w-[120px] h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="name">Name</SelectItem>
+                <SelectItem value="pattern">Pattern</SelectItem>
+                <SelectItem value="topic">Topic</SelectItem>
+                <SelectItem value="stars">Stars ≥</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              value={ruleValue}
+              onChange={(e) => setRuleValue(e.target.value)}
+              placeholder={RULE_PLACEHOLDERS[ruleType]}
+              className="h-9"
+            />
+            <Button type="submit" size="sm" className="h-9" disabled={!canAdd}>
+              <Plus className="w-4 h-4" />
+            </Button>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
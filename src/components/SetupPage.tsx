@@ -1,8 +1,12 @@
 import { useState } from "react";
+import { Loader2 } from "lucide-react";
 import icon from "@/assets/icon.png";
+import { DeviceFlowLogin } from "@/components/DeviceFlowLogin";
+import { TokenAccessChecklist } from "@/components/TokenAccessChecklist";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import {
   Card,
   CardContent,
@@ -11,54 +15,197 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
+import {
+  getTokenPattern,
+  getWebBaseUrl,
+  GitHubApiError,
+  GitHubClient,
+  isEnterpriseHost,
+  normalizeApiBaseUrl,
+  type GitHubUser,
+  type TokenInspection,
+} from "@/lib/github";
+import type { SavedAccount } from "@/lib/accounts";
+import {
+  encryptSecret,
+  MIN_PASSPHRASE_LENGTH,
+  type StorageMode,
+} from "@/lib/vault";
 import { z } from "zod";
 
-const credentialsSchema = z.object({
-  username: z
-    .string()
-    .trim()
-    .min(1, { message: "Username cannot be empty" })
-    .max(39, { message: "Username must be less than 39 characters" })
-    .regex(/^[a-zA-Z0-9-]+$/, {
-      message: "Username can only contain alphanumeric characters and hyphens",
-    }),
-  token: z
-    .string()
-    .trim()
-    .min(1, { message: "Token cannot be empty" })
-    .max(255, { message: "Token must be less than 255 characters" })
-    .regex(/^(ghp_|github_pat_)[a-zA-Z0-9_]+$/, {
-      message:
-        "Invalid GitHub token format. Must start with 'ghp_' or 'github_pat_'",
+const credentialsSchema = z
+  .object({
+    apiEndpoint: z.string().transform((value, ctx) => {
+      try {
+        return normalizeApiBaseUrl(value);
+      } catch {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Enter a valid URL, e.g. https://github.example.com",
+        });
+        return z.NEVER;
+      }
     }),
-});
+    username: z
+      .string()
+      .trim()
+      .min(1, { message: "Username cannot be empty" })
+      .max(39, { message: "Username must be less than 39 characters" })
+      .regex(/^[a-zA-Z0-9-]+$/, {
+        message:
+          "Username can only contain alphanumeric characters and hyphens",
+      }),
+    token: z
+      .string()
+      .trim()
+      .min(1, { message: "Token cannot be empty" })
+      .max(255, { message: "Token must be less than 255 characters" }),
+  })
+  .superRefine((data, ctx) => {
+    if (getTokenPattern(data.apiEndpoint).test(data.token)) return;
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["token"],
+      message: isEnterpriseHost(data.apiEndpoint)
+        ? "Token can only contain letters, digits and underscores"
+        : "Invalid GitHub token format. Must start with 'ghp_', 'gho_' or 'github_pat_'",
+    });
+  });
+
+function tryNormalizeApiBaseUrl(value: string): string | null {
+  try {
+    return normalizeApiBaseUrl(value);
+  } catch {
+    return null;
+  }
+}
 
 interface SetupPageProps {
-  onSetupComplete: (username: string, token: string) => void;
+  onSetupComplete: (account: SavedAccount, token: string) => void;
+  /** Shown as a way back when adding an account alongside existing ones. */
+  onCancel?: () => void;
 }
 
-export function SetupPage({ onSetupComplete }: SetupPageProps) {
+const STORAGE_MODES: { value: StorageMode; label: string; hint: string }[] = [
+  {
+    value: "plain",
+    label: "Remember on this device",
+    hint: "Stored unencrypted in this browser",
+  },
+  {
+    value: "vault",
+    label: "Encrypt with a passphrase",
+    hint: "Asked for on load and after inactivity",
+  },
+  {
+    value: "session",
+    label: "This session only",
+    hint: "Kept in memory and forgotten on reload",
+  },
+];
+
+const SAVED_DESCRIPTIONS: Record<StorageMode, string> = {
+  plain: "Your GitHub credentials are stored in this browser",
+  vault: "Your token is encrypted with your passphrase",
+  session: "Your token will be forgotten when you leave this page",
+};
+
+export function SetupPage({ onSetupComplete, onCancel }: SetupPageProps) {
   const [username, setUsername] = useState("");
   const [token, setToken] = useState("");
-  const [errors, setErrors] = useState<{ username?: string; token?: string }>(
-    {},
-  );
+  const [apiEndpoint, setApiEndpoint] = useState("");
+  const [storageMode, setStorageMode] = useState<StorageMode>("plain");
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [errors, setErrors] = useState<{
+    apiEndpoint?: string;
+    username?: string;
+    token?: string;
+    passphrase?: string;
+  }>({});
+  const [verifying, setVerifying] = useState(false);
+  const [verified, setVerified] = useState<{
+    apiBaseUrl: string;
+    token: string;
+    inspection: TokenInspection;
+  } | null>(null);
   const { toast } = useToast();
+  const webBaseUrl = getWebBaseUrl(
+    tryNormalizeApiBaseUrl(apiEndpoint) ?? undefined,
+  );
+
+  const passphraseError =
+    storageMode !== "vault"
+      ? undefined
+      : passphrase.length < MIN_PASSPHRASE_LENGTH
+        ? `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`
+        : passphrase !== confirmPassphrase
+          ? "Passphrases do not match"
+          : undefined;
+
+  const saveCredentials = async (
+    user: GitHubUser,
+    token: string,
+    apiBaseUrl: string,
+  ) => {
+    const account: SavedAccount = {
+      username: user.login,
+      avatarUrl: user.avatar_url,
+      mode: storageMode,
+    };
+    if (isEnterpriseHost(apiBaseUrl)) account.apiBaseUrl = apiBaseUrl;
+    if (storageMode === "plain") {
+      account.token = token;
+    } else if (storageMode === "vault") {
+      account.vault = await encryptSecret(token, passphrase);
+    }
+    onSetupComplete(account, token);
+
+    toast({
+      title: "Credentials saved",
+      description: SAVED_DESCRIPTIONS[storageMode],
+    });
+  };
+
+  const handleDeviceFlowToken = async (token: string) => {
+    const apiBaseUrl = normalizeApiBaseUrl(apiEndpoint);
+    const inspection = await new GitHubClient({
+      token,
+      baseUrl: apiBaseUrl,
+    }).inspectToken();
+    setVerified({ apiBaseUrl, token, inspection });
+  };
+
+  const handleContinue = async () => {
+    if (!verified) return;
+    if (passphraseError) {
+      setErrors({ passphrase: passphraseError });
+      return;
+    }
+    await saveCredentials(
+      verified.inspection.user,
+      verified.token,
+      verified.apiBaseUrl,
+    );
+  };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setErrors({});
 
     // Validate inputs
     const result = credentialsSchema.safeParse({
+      apiEndpoint: apiEndpoint,
       username: username,
       token: token,
     });
 
-    if (!result.success) {
-      const fieldErrors: { username?: string; token?: string } = {};
-      result.error.errors.forEach((err) => {
-        if (err.path[0] === "username") {
+    if (!result.success || passphraseError) {
+      const fieldErrors: typeof errors = { passphrase: passphraseError };
+      result.error?.errors.forEach((err) => {
+        if (err.path[0] === "apiEndpoint") {
+          fieldErrors.apiEndpoint = err.message;
+        } else if (err.path[0] === "username") {
           fieldErrors.username = err.message;
         } else if (err.path[0] === "token") {
           fieldErrors.token = err.message;
@@ -77,14 +224,39 @@ export function SetupPage({ onSetupComplete }: SetupPageProps) {
     // Use validated and trimmed values
     const validatedData = result.data;
 
-    localStorage.setItem("github_username", validatedData.username);
-    localStorage.setItem("github_token", validatedData.token);
-    onSetupComplete(validatedData.username, validatedData.token);
-
-    toast({
-      title: "Credentials saved",
-      description: "Your GitHub credentials have been stored securely",
-    });
+    setVerifying(true);
+    try {
+      const inspection = await new GitHubClient({
+        token: validatedData.token,
+        baseUrl: validatedData.apiEndpoint,
+      }).inspectToken();
+      if (
+        inspection.user.login.toLowerCase() !==
+        validatedData.username.toLowerCase()
+      ) {
+        setErrors({
+          username: `This token belongs to ${inspection.user.login}`,
+        });
+        return;
+      }
+      setVerified({
+        apiBaseUrl: validatedData.apiEndpoint,
+        token: validatedData.token,
+        inspection,
+      });
+    } catch (err) {
+      if (err instanceof GitHubApiError && err.status === 401) {
+        setErrors({ token: "GitHub rejected this token (invalid or expired)" });
+        return;
+      }
+      toast({
+        title: "Could not verify token",
+        description: err instanceof Error ? err.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setVerifying(false);
+    }
   };
 
   return (
@@ -100,62 +272,180 @@ export function SetupPage({ onSetupComplete }: SetupPageProps) {
             Repo Cleaner
           </CardTitle>
           <CardDescription className="text-base">
-            Enter your GitHub credentials to get started
+            {onCancel
+              ? "Add another GitHub account"
+              : "Enter your GitHub credentials to get started"}
           </CardDescription>
         </CardHeader>
-        <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-5">
-            <div className="space-y-2">
-              <Label htmlFor="username" className="text-sm font-medium">
-                GitHub Username
-              </Label>
-              <Input
-                id="username"
-                placeholder="octocat"
-                value={username}
-                onChange={(e) => setUsername(e.target.value)}
-                className={`h-11 transition-all ${errors.username ? "border-destructive" : ""}`}
-                maxLength={39}
-              />
-              {errors.username && (
-                <p className="text-xs text-destructive">{errors.username}</p>
-              )}
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="token" className="text-sm font-medium">
-                Personal Access Token
-              </Label>
-              <Input
-                id="token"
-                type="password"
-                placeholder="ghp_xxxxxxxxxxxx"
-                value={token}
-                onChange={(e) => setToken(e.target.value)}
-                className={`h-11 transition-all ${errors.token ? "border-destructive" : ""}`}
-                maxLength={255}
-              />
-              {errors.token && (
-                <p className="text-xs text-destructive">{errors.token}</p>
-              )}
-              <p className="text-xs text-muted-foreground">
-                Need a token?{" "}
-                <a
-                  href="https://github.com/settings/tokens/new?scopes=repo,delete_repo"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-primary hover:text-accent transition-colors underline"
+        <CardContent className="space-y-5">
+          <div className="space-y-3">
+            <Label className="text-sm font-medium">Keep me signed in</Label>
+            <RadioGroup
+              value={storageMode}
+              onValueChange={(mode) => setStorageMode(mode as StorageMode)}
+            >
+              {STORAGE_MODES.map((mode) => (
+                <Label
+                  key={mode.value}
+                  htmlFor={`storage-${mode.value}`}
+                  className="flex items-start gap-3 font-normal cursor-pointer"
+                >
+                  <RadioGroupItem
+                    id={`storage-${mode.value}`}
+                    value={mode.value}
+                    className="mt-0.5"
+                  />
+                  <span>
+                    <span className="block text-sm">{mode.label}</span>
+                    <span className="block text-xs text-muted-foreground">
+                      {mode.hint}
+                    </span>
+                  </span>
+                </Label>
+              ))}
+            </RadioGroup>
+            {storageMode === "vault" && (
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  type="password"
+                  aria-label="Passphrase"
+                  placeholder="Passphrase"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  className={`h-10 ${errors.passphrase ? "border-destructive" : ""}`}
+                />
+                <Input
+                  type="password"
+                  aria-label="Confirm passphrase"
+                  placeholder="Confirm"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  className={`h-10 ${errors.passphrase ? "border-destructive" : ""}`}
+                />
+                {errors.passphrase && (
+                  <p className="col-span-2 text-xs text-destructive">
+                    {errors.passphrase}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+          {verified ? (
+            <div className="space-y-3">
+              <TokenAccessChecklist inspection={verified.inspection} />
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  className="h-11"
+                  onClick={() => setVerified(null)}
                 >
-                  Create one here
-                </a>
-              </p>
+                  Back
+                </Button>
+                <Button
+                  onClick={handleContinue}
+                  className="flex-1 h-11 bg-gradient-to-r from-primary to-accent hover:opacity-90 transition-all shadow-md"
+                >
+                  Continue as {verified.inspection.user.login}
+                </Button>
+              </div>
             </div>
-            <Button
-              type="submit"
-              className="w-full h-11 bg-gradient-to-r from-primary to-accent hover:opacity-90 transition-all shadow-md"
+          ) : (
+            <>
+              <DeviceFlowLogin onAuthorized={handleDeviceFlowToken} />
+              <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                <div className="h-px flex-1 bg-border" />
+                or use a personal access token
+                <div className="h-px flex-1 bg-border" />
+              </div>
+              <form onSubmit={handleSubmit} className="space-y-5">
+                <div className="space-y-2">
+                  <Label htmlFor="username" className="text-sm font-medium">
+                    GitHub Username
+                  </Label>
+                  <Input
+                    id="username"
+                    placeholder="octocat"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    className={`h-11 transition-all ${errors.username ? "border-destructive" : ""}`}
+                    maxLength={39}
+                  />
+                  {errors.username && (
+                    <p className="text-xs text-destructive">
+                      {errors.username}
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="token" className="text-sm font-medium">
+                    Personal Access Token
+                  </Label>
+                  <Input
+                    id="token"
+                    type="password"
+                    placeholder="ghp_xxxxxxxxxxxx"
+                    value={token}
+                    onChange={(e) => setToken(e.target.value)}
+                    className={`h-11 transition-all ${errors.token ? "border-destructive" : ""}`}
+                    maxLength={255}
+                  />
+                  {errors.token && (
+                    <p className="text-xs text-destructive">{errors.token}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    Need a token?{" "}
+                    <a
+                      href={`${webBaseUrl}/settings/tokens/new?scopes=repo,delete_repo`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-primary hover:text-accent transition-colors underline"
+                    >
+                      Create one here
+                    </a>
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="api-endpoint" className="text-sm font-medium">
+                    API endpoint
+                  </Label>
+                  <Input
+                    id="api-endpoint"
+                    placeholder="https://api.github.com"
+                    value={apiEndpoint}
+                    onChange={(e) => setApiEndpoint(e.target.value)}
+                    className={`h-11 transition-all ${errors.apiEndpoint ? "border-destructive" : ""}`}
+                  />
+                  {errors.apiEndpoint ? (
+                    <p className="text-xs text-destructive">
+                      {errors.apiEndpoint}
+                    </p>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      Leave empty for github.com, or enter your GitHub
+                      Enterprise Server URL
+                    </p>
+                  )}
+                </div>
+                <Button
+                  type="submit"
+                  disabled={verifying}
+                  className="w-full h-11 gap-2 bg-gradient-to-r from-primary to-accent hover:opacity-90 transition-all shadow-md"
+                >
+                  {verifying && <Loader2 className="w-4 h-4 animate-spin" />}
+                  Continue
+                </Button>
+              </form>
+            </>
+          )}
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="block w-full text-center text-xs text-muted-foreground hover:text-foreground transition-colors"
             >
-              Continue
-            </Button>
-          </form>
+              Back to dashboard
+            </button>
+          )}
         </CardContent>
       </Card>
     </div>
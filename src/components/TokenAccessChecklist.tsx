@@ -0,0 +1,60 @@
+import { CircleAlert, CircleCheck, CircleHelp, CircleX } from "lucide-react";
+import type { CapabilityStatus, TokenInspection } from "@/lib/github";
+
+const STATUS_ICONS: Record<CapabilityStatus, JSX.Element> = {
+  granted: <CircleCheck className="w-4 h-4 text-green-500" />,
+  partial: <CircleAlert className="w-4 h-4 text-yellow-500" />,
+  missing: <CircleX className="w-4 h-4 text-destructive" />,
+  unknown: <CircleHelp className="w-4 h-4 text-muted-foreground" />,
+};
+
+const KIND_LABELS: Record<TokenInspection["kind"], string> = {
+  classic: "Classic personal access token",
+  oauth: "OAuth app token",
+  "fine-grained": "Fine-grained personal access token",
+};
+
+export function TokenAccessChecklist({
+  inspection,
+}: {
+  inspection: TokenInspection;
+}) {
+  return (
+    <div className="space-y-3 rounded-md border border-border/50 p-4">
+      <div className="flex items-center gap-3">
+        <img
+          src={inspection.user.avatar_url}
+          alt={inspection.user.login}
+          className="w-9 h-9 rounded-full"
+        />
+        <div className="min-w-0">
+          <p className="text-sm font-medium truncate">
+            {inspection.user.name ?? inspection.user.login}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {KIND_LABELS[inspection.kind]}
+          </p>
+        </div>
+      </div>
+      <ul className="space-y-2">
+        {inspection.capabilities.map((capability) => (
+          <li key={capability.id} className="flex items-start gap-2">
+            <span className="mt-0.5">{STATUS_ICONS[capability.status]}</span>
+            <div>
+              <p className="text-sm">{capability.label}</p>
+              <p className="text-xs text-muted-foreground">
+                {capability.detail}
+              </p>
+            </div>
+          </li>
+        ))}
+      </ul>
+      {inspection.scopes && (
+        <p className="text-xs text-muted-foreground">
+          Scopes:{" "}
+          {inspection.scopes.length > 0 ? inspection.scopes.join(", ") : "none"}
+        </p>
+      )}
+    </div>
+  );
+}
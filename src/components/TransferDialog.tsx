@@ -0,0 +1,94 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { Repository } from "@/lib/github";
+
+interface TransferDialogProps {
+  repo: Repository | null;
+  onOpenChange: (open: boolean) => void;
+  onTransfer: (repo: Repository, newOwner: string) => Promise<void>;
+}
+
+const OWNER_PATTERN = /^[a-zA-Z0-9-]{1,39}$/;
+
+export function TransferDialog({
+  repo,
+  onOpenChange,
+  onTransfer,
+}: TransferDialogProps) {
+  const [newOwner, setNewOwner] = useState("");
+  const [transferring, setTransferring] = useState(false);
+
+  useEffect(() => {
+    if (repo) setNewOwner("");
+  }, [repo]);
+
+  const owner = newOwner.trim();
+  const valid = OWNER_PATTERN.test(owner);
+
+  const handleTransfer = async () => {
+    if (!repo || !valid) return;
+    setTransferring(true);
+    try {
+      await onTransfer(repo, owner);
+    } finally {
+      setTransferring(false);
+    }
+  };
+
+  return (
+    <AlertDialog
+      open={!!repo}
+      onOpenChange={(open) => {
+        if (!transferring) onOpenChange(open);
+      }}
+    >
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Transfer Repository</AlertDialogTitle>
+          <AlertDialogDescription>
+            Transfer <strong>{repo?.full_name}</strong> to another user or
+            organization. You may lose access to it afterwards.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="transfer-owner" className="text-sm font-medium">
+            New owner
+          </Label>
+          <Input
+            id="transfer-owner"
+            placeholder="octo-org"
+            value={newOwner}
+            onChange={(e) => setNewOwner(e.target.value)}
+            maxLength={39}
+            autoComplete="off"
+          />
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={transferring}>Cancel</AlertDialogCancel>
+          <Button onClick={handleTransfer} disabled={transferring || !valid}>
+            {transferring ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Transferring...
+              </>
+            ) : (
+              "Transfer"
+            )}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
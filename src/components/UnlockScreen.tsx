@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { Loader2, Lock } from "lucide-react";
+import icon from "@/assets/icon.png";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AccountAvatar } from "@/components/AccountSwitcher";
+import { getAccountId, type SavedAccount } from "@/lib/accounts";
+
+interface UnlockScreenProps {
+  username: string;
+  onUnlock: (passphrase: string) => Promise<void>;
+  onForget: () => void;
+  otherAccounts?: SavedAccount[];
+  onSwitchAccount?: (accountId: string) => void;
+}
+
+export function UnlockScreen({
+  username,
+  onUnlock,
+  onForget,
+  otherAccounts = [],
+  onSwitchAccount,
+}: UnlockScreenProps) {
+  const [passphrase, setPassphrase] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setUnlocking(true);
+    try {
+      await onUnlock(passphrase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-background via-background to-muted/20 relative">
+      <Card className="w-full max-w-md shadow-lg border-border/50 animate-fade-in">
+        <CardHeader className="space-y-3 text-center">
+          <img
+            src={icon}
+            alt="App Icon"
+            className="mx-auto w-16 h-16 rounded-2xl shadow-glow object-cover bg-gradient-to-br from-primary to-accent"
+          />
+          <CardTitle className="text-3xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+            Repo Cleaner
+          </CardTitle>
+          <CardDescription className="text-base">
+            Enter your passphrase to unlock {username}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-5">
+            <div className="space-y-2">
+              <Label htmlFor="passphrase" className="text-sm font-medium">
+                Passphrase
+              </Label>
+              <Input
+                id="passphrase"
+                type="password"
+                autoFocus
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                className={`h-11 transition-all ${error ? "border-destructive" : ""}`}
+              />
+              {error && <p className="text-xs text-destructive">{error}</p>}
+            </div>
+            <Button
+              type="submit"
+              disabled={!passphrase || unlocking}
+              className="w-full h-11 gap-2 bg-gradient-to-r from-primary to-accent hover:opacity-90 transition-all shadow-md"
+            >
+              {unlocking ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Lock className="w-4 h-4" />
+              )}
+              Unlock
+            </Button>
+            <button
+              type="button"
+              onClick={onForget}
+              className="block w-full text-center text-xs text-muted-foreground hover:text-destructive transition-colors"
+            >
+              Forgot your passphrase? Remove the saved credentials
+            </button>
+          </form>
+          {otherAccounts.length > 0 && onSwitchAccount && (
+            <div className="mt-5 space-y-2 border-t border-border/50 pt-4">
+              <p className="text-xs text-muted-foreground">
+                Or switch to another account
+              </p>
+              {otherAccounts.map((account) => (
+                <Button
+                  key={getAccountId(account)}
+                  variant="ghost"
+                  className="w-full justify-start gap-2"
+                  onClick={() => onSwitchAccount(getAccountId(account))}
+                >
+                  <AccountAvatar account={account} />
+                  {account.username}
+                </Button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { useCallback, useMemo } from "react";
+import { useQueries, type UseQueryResult } from "@tanstack/react-query";
+import type { ForkDivergence, GitHubClient, Repository } from "@/lib/github";
+import { createLimiter } from "@/lib/task-queue";
+import { githubKeys } from "@/hooks/use-github-queries";
+
+const DIVERGENCE_CONCURRENCY = 3;
+const DIVERGENCE_STALE_MS = 60 * 60_000;
+
+const limit = createLimiter(DIVERGENCE_CONCURRENCY);
+
+/**
+ * Looks up ahead/behind counts against upstream for every fork in `repos`.
+ * Entries are missing while loading and null when the comparison failed.
+ */
+export function useForkDivergence(
+  client: GitHubClient,
+  accountId: string,
+  repos: Repository[],
+) {
+  const forks = useMemo(() => repos.filter((repo) => repo.fork), [repos]);
+
+  const combine = useCallback(
+    (results: UseQueryResult<ForkDivergence | null>[]) => {
+      const divergence: Record<number, ForkDivergence | null> = {};
+      results.forEach((result, index) => {
+        if (result.data !== undefined) {
+          divergence[forks[index].id] = result.data;
+        }
+      });
+      return divergence;
+    },
+    [forks],
+  );
+
+  return useQueries({
+    queries: forks.map((repo) => ({
+      queryKey: githubKeys.divergence(accountId, repo.full_name),
+      queryFn: ({ signal }: { signal: AbortSignal }) =>
+        limit(async () => {
+          try {
+            return await client.getForkDivergence(repo.full_name, signal);
+          } catch (err) {
+            if (err instanceof DOMException && err.name === "AbortError") {
+              throw err;
+            }
+            // Null: the card shows the divergence as unknown
+            return null;
+          }
+        }),
+      staleTime: DIVERGENCE_STALE_MS,
+    })),
+    combine,
+  });
+}
@@ -0,0 +1,75 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import type { GitHubClient, ListResult, Repository } from "@/lib/github";
+
+/**
+ * Query keys for everything loaded from GitHub. Every key starts with the
+ * account id so one account's cache can be dropped without touching others.
+ */
+export const githubKeys = {
+  account: (accountId: string) => ["github", accountId] as const,
+  user: (accountId: string) => [...githubKeys.account(accountId), "user"],
+  orgs: (accountId: string) => [...githubKeys.account(accountId), "orgs"],
+  allRepos: (accountId: string) => [...githubKeys.account(accountId), "repos"],
+  /** `owner` is an org login, or null for the authenticated user. */
+  repos: (accountId: string, owner: string | null) => [
+    ...githubKeys.allRepos(accountId),
+    owner ?? "@me",
+  ],
+  divergence: (accountId: string, fullName: string) => [
+    ...githubKeys.account(accountId),
+    "divergence",
+    fullName,
+  ],
+};
+
+export function useAuthenticatedUser(client: GitHubClient, accountId: string) {
+  return useQuery({
+    queryKey: githubKeys.user(accountId),
+    queryFn: ({ signal }) => client.getAuthenticatedUser(signal),
+  });
+}
+
+export function useUserOrgs(client: GitHubClient, accountId: string) {
+  return useQuery({
+    queryKey: githubKeys.orgs(accountId),
+    queryFn: ({ signal }) => client.listUserOrgs(signal),
+    // Tokens without read:org can't list memberships; don't keep retrying
+    retry: false,
+  });
+}
+
+/**
+ * Loads an owner's repositories. On a first load each page is written to
+ * the cache as it arrives, marked `partial`, so the list renders and can be
+ * filtered before the last page is in. Cancelling keeps what has loaded.
+ * Later loads pass the cached list along so it can be revalidated cheaply.
+ */
+export function useRepositories(
+  client: GitHubClient,
+  accountId: string,
+  owner: string | null,
+) {
+  const queryClient = useQueryClient();
+  const queryKey = githubKeys.repos(accountId, owner);
+  return useQuery({
+    queryKey,
+    queryFn: ({ signal }) => {
+      const cached = queryClient.getQueryData<ListResult<Repository>>(queryKey);
+      // A complete cached list stays on screen while it revalidates
+      const stream = !cached || cached.partial;
+      return client.listRepos(
+        owner,
+        signal,
+        stream
+          ? (progress) =>
+              queryClient.setQueryData<ListResult<Repository>>(queryKey, {
+                ...progress,
+                items: [...progress.items],
+                partial: true,
+              })
+          : undefined,
+        cached,
+      );
+    },
+  });
+}
@@ -0,0 +1,32 @@
+import { useEffect, useRef } from "react";
+
+const ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "scroll"];
+
+/** Calls `onIdle` once no user activity has been seen for `timeoutMs`. */
+export function useIdleTimeout(
+  timeoutMs: number,
+  onIdle: () => void,
+  enabled = true,
+) {
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  useEffect(() => {
+    if (!enabled) return;
+    let timer: ReturnType<typeof setTimeout>;
+    const reset = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => onIdleRef.current(), timeoutMs);
+    };
+    reset();
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, reset, { passive: true }),
+    );
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((event) =>
+        window.removeEventListener(event, reset),
+      );
+    };
+  }, [timeoutMs, enabled]);
+}
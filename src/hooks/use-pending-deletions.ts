@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { BackupOptions } from "@/lib/backup";
+import type { Repository } from "@/lib/github";
+
+export interface PendingDeletion {
+  repo: Repository;
+  /** Epoch milliseconds after which the DELETE is sent. */
+  executeAt: number;
+  backup: BackupOptions;
+  /** Staged in dry-run mode; must never run against GitHub. */
+  simulated?: boolean;
+  /** Came due while the page was closed; waits for an explicit "Delete now". */
+  held?: boolean;
+}
+
+interface UsePendingDeletionsOptions {
+  storageKey: string;
+  graceMs: number;
+  execute: (entry: PendingDeletion) => Promise<void>;
+  onSettled: (entry: PendingDeletion, error?: unknown) => void;
+  /** Entries for which this returns false stay queued, even once due. */
+  canRun?: (entry: PendingDeletion) => boolean;
+}
+
+function loadPending(storageKey: string): PendingDeletion[] {
+  try {
+    const stored = localStorage.getItem(storageKey);
+    const entries: PendingDeletion[] = stored ? JSON.parse(stored) : [];
+    const now = Date.now();
+    return entries.map((entry) =>
+      entry.executeAt <= now ? { ...entry, held: true } : entry,
+    );
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Queues deletions for `graceMs` before running them so they can be undone.
+ * The queue is persisted; deletions that came due while the page was closed
+ * are held until they are confirmed with `commitAll` or undone.
+ */
+export function usePendingDeletions({
+  storageKey,
+  graceMs,
+  execute,
+  onSettled,
+  canRun = () => true,
+}: UsePendingDeletionsOptions) {
+  const [pending, setPending] = useState<PendingDeletion[]>(() =>
+    loadPending(storageKey),
+  );
+  const executing = useRef(new Set<number>());
+  const handlers = useRef({ execute, onSettled, canRun });
+  handlers.current = { execute, onSettled, canRun };
+
+  useEffect(() => {
+    if (pending.length > 0) {
+      localStorage.setItem(storageKey, JSON.stringify(pending));
+    } else {
+      localStorage.removeItem(storageKey);
+    }
+  }, [storageKey, pending]);
+
+  const run = useCallback(async (entry: PendingDeletion) => {
+    if (executing.current.has(entry.repo.id)) return;
+    if (!handlers.current.canRun(entry)) return;
+    executing.current.add(entry.repo.id);
+    let error: unknown;
+    try {
+      await handlers.current.execute(entry);
+    } catch (err) {
+      error = err;
+    }
+    executing.current.delete(entry.repo.id);
+    setPending((prev) => prev.filter((p) => p.repo.id !== entry.repo.id));
+    handlers.current.onSettled(entry, error);
+  }, []);
+
+  useEffect(() => {
+    const waiting = pending.filter(
+      (p) => !p.held && !executing.current.has(p.repo.id) && canRun(p),
+    );
+    if (waiting.length === 0) return;
+    const next = Math.min(...waiting.map((p) => p.executeAt));
+    const timer = setTimeout(
+      () => {
+        const now = Date.now();
+        waiting.filter((p) => p.executeAt <= now).forEach(run);
+      },
+      Math.max(0, next - Date.now()),
+    );
+    return () => clearTimeout(timer);
+  }, [pending, run, canRun]);
+
+  const stage = useCallback(
+    (repo: Repository, backup: BackupOptions, simulated = false) => {
+      const entry = {
+        repo,
+        backup,
+        simulated,
+        executeAt: Date.now() + graceMs,
+      };
+      setPending((prev) => [
+        ...prev.filter((p) => p.repo.id !== repo.id),
+        entry,
+      ]);
+      return entry;
+    },
+    [graceMs],
+  );
+
+  const undo = useCallback((repoId: number) => {
+    if (executing.current.has(repoId)) return false;
+    setPending((prev) => prev.filter((p) => p.repo.id !== repoId));
+    return true;
+  }, []);
+
+  const undoAll = useCallback(() => {
+    setPending((prev) => prev.filter((p) => executing.current.has(p.repo.id)));
+  }, []);
+
+  const commitAll = useCallback(() => {
+    pending.forEach(run);
+  }, [pending, run]);
+
+  return { pending, stage, undo, undoAll, commitAll };
+}
@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from "react";
+import type { GitHubClient, RateLimitStatus } from "@/lib/github";
+
+/** Subscribes to the client's rate-limit status. */
+export function useRateLimit(client: GitHubClient): RateLimitStatus {
+  return useSyncExternalStore(
+    (onChange) => client.subscribeRateLimit(onChange),
+    () => client.getRateLimitStatus(),
+  );
+}
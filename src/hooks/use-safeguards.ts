@@ -0,0 +1,25 @@
+import { useEffect, useState } from "react";
+import { DEFAULT_SAFEGUARDS, type SafeguardSettings } from "@/lib/protection";
+
+const STORAGE_KEY = "safeguards";
+
+function loadSafeguards(): SafeguardSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) return { ...DEFAULT_SAFEGUARDS, ...JSON.parse(stored) };
+  } catch {
+    // Corrupt value; fall back to defaults
+  }
+  return DEFAULT_SAFEGUARDS;
+}
+
+export function useSafeguards() {
+  const [safeguards, setSafeguards] =
+    useState<SafeguardSettings>(loadSafeguards);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(safeguards));
+  }, [safeguards]);
+
+  return [safeguards, setSafeguards] as const;
+}
@@ -0,0 +1,50 @@
+import { useEffect, useState, type RefObject } from "react";
+
+interface WindowedRows {
+  start: number;
+  end: number;
+  /** Space to leave above and below the rendered rows. */
+  paddingTop: number;
+  paddingBottom: number;
+}
+
+/**
+ * Works out which fixed-height rows of a scrolling container are on screen,
+ * so only those (plus `overscan` on each side) need to be rendered.
+ */
+export function useWindowedRows(
+  containerRef: RefObject<HTMLElement>,
+  count: number,
+  rowHeight: number,
+  overscan = 10,
+): WindowedRows {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const onScroll = () => setScrollTop(container.scrollTop);
+    const observer = new ResizeObserver(() =>
+      setViewportHeight(container.clientHeight),
+    );
+    container.addEventListener("scroll", onScroll, { passive: true });
+    observer.observe(container);
+    return () => {
+      container.removeEventListener("scroll", onScroll);
+      observer.disconnect();
+    };
+  }, [containerRef]);
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const end = Math.min(
+    count,
+    Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan,
+  );
+  return {
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: Math.max(0, count - end) * rowHeight,
+  };
+}
@@ -0,0 +1,89 @@
+import { isEnterpriseHost } from "@/lib/github";
+import type { EncryptedVault, StorageMode } from "@/lib/vault";
+
+export interface SavedAccount {
+  username: string;
+  avatarUrl: string | null;
+  mode: StorageMode;
+  /** REST base URL for GitHub Enterprise Server; unset for github.com. */
+  apiBaseUrl?: string;
+  /** Present for "plain" accounts only. */
+  token?: string;
+  /** Present for "vault" accounts only. */
+  vault?: EncryptedVault;
+}
+
+const ACCOUNTS_STORAGE_KEY = "github_accounts";
+const ACTIVE_ACCOUNT_STORAGE_KEY = "github_active_account";
+
+/**
+ * Identifies an account across hosts: the login for github.com, and
+ * `login@host` for enterprise instances.
+ */
+export function getAccountId({
+  username,
+  apiBaseUrl,
+}: Pick<SavedAccount, "username" | "apiBaseUrl">) {
+  const id = isEnterpriseHost(apiBaseUrl)
+    ? `${username}@${new URL(apiBaseUrl).host}`
+    : username;
+  return id.toLowerCase();
+}
+
+/** Prefix for localStorage keys holding state cached for one account. */
+export function accountStorageKey(accountId: string, key: string) {
+  return `account:${accountId}:${key}`;
+}
+
+/** Converts the single-account keys used by earlier versions. */
+function migrateLegacyCredentials(): SavedAccount[] {
+  const username = localStorage.getItem("github_username");
+  const token = localStorage.getItem("github_token");
+  localStorage.removeItem("github_username");
+  localStorage.removeItem("github_token");
+  if (!username || !token) return [];
+  return [{ username, avatarUrl: null, mode: "plain", token }];
+}
+
+export function loadAccounts(): SavedAccount[] {
+  try {
+    const stored = localStorage.getItem(ACCOUNTS_STORAGE_KEY);
+    if (stored) return JSON.parse(stored);
+    const migrated = migrateLegacyCredentials();
+    saveAccounts(migrated);
+    return migrated;
+  } catch {
+    return [];
+  }
+}
+
+/** Persists every account except session-only ones. */
+export function saveAccounts(accounts: SavedAccount[]) {
+  const persisted = accounts.filter((account) => account.mode !== "session");
+  if (persisted.length > 0) {
+    localStorage.setItem(ACCOUNTS_STORAGE_KEY, JSON.stringify(persisted));
+  } else {
+    localStorage.removeItem(ACCOUNTS_STORAGE_KEY);
+  }
+}
+
+/** Returns the id of the account that was active last. */
+export function loadActiveAccount(): string | null {
+  return localStorage.getItem(ACTIVE_ACCOUNT_STORAGE_KEY);
+}
+
+export function saveActiveAccount(accountId: string | null) {
+  if (accountId) {
+    localStorage.setItem(ACTIVE_ACCOUNT_STORAGE_KEY, accountId);
+  } else {
+    localStorage.removeItem(ACTIVE_ACCOUNT_STORAGE_KEY);
+  }
+}
+
+/** Drops everything cached for an account when it is removed. */
+export function clearAccountState(accountId: string) {
+  const prefix = accountStorageKey(accountId, "");
+  Object.keys(localStorage)
+    .filter((key) => key.startsWith(prefix))
+    .forEach((key) => localStorage.removeItem(key));
+}
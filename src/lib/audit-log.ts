@@ -0,0 +1,145 @@
+import { GitHubApiError, type Repository } from "@/lib/github";
+import { toCsv } from "@/lib/csv";
+import { STORES, withStore } from "@/lib/idb";
+
+export type AuditAction =
+  | "delete"
+  | "archive"
+  | "unarchive"
+  | "make_public"
+  | "make_private"
+  | "transfer";
+
+/** "simulated" marks actions taken while dry run was on. */
+export type AuditOutcome = "succeeded" | "failed" | "simulated";
+
+/** The repository as it was right before the action. */
+export type RepoSnapshot = Pick<
+  Repository,
+  | "id"
+  | "full_name"
+  | "html_url"
+  | "description"
+  | "private"
+  | "fork"
+  | "archived"
+  | "language"
+  | "stargazers_count"
+  | "forks_count"
+  | "size"
+  | "created_at"
+  | "updated_at"
+  | "pushed_at"
+>;
+
+export interface AuditEntry {
+  /** Assigned by IndexedDB. */
+  id?: number;
+  /** Epoch milliseconds. */
+  timestamp: number;
+  /** The account that took the action; see getAccountId. */
+  account: string;
+  fullName: string;
+  action: AuditAction;
+  snapshot: RepoSnapshot;
+  outcome: AuditOutcome;
+  /** GitHub's error message when the action failed. */
+  error: string | null;
+  /** Extra parameters, such as the new owner of a transfer. */
+  details?: Record<string, unknown>;
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  delete: "Delete",
+  archive: "Archive",
+  unarchive: "Unarchive",
+  make_public: "Make public",
+  make_private: "Make private",
+  transfer: "Transfer",
+};
+
+export function snapshotRepo(repo: Repository): RepoSnapshot {
+  return {
+    id: repo.id,
+    full_name: repo.full_name,
+    html_url: repo.html_url,
+    description: repo.description,
+    private: repo.private,
+    fork: repo.fork,
+    archived: repo.archived,
+    language: repo.language,
+    stargazers_count: repo.stargazers_count,
+    forks_count: repo.forks_count,
+    size: repo.size,
+    created_at: repo.created_at,
+    updated_at: repo.updated_at,
+    pushed_at: repo.pushed_at,
+  };
+}
+
+/** Prefers GitHub's own message over the status line. */
+export function describeError(error: unknown): string {
+  if (error instanceof GitHubApiError) {
+    return error.githubMessage ?? error.message;
+  }
+  return error instanceof Error ? error.message : "Unknown error";
+}
+
+export function recordAuditEntry(entry: Omit<AuditEntry, "id">) {
+  return withStore<number>(STORES.auditLog, "readwrite", (store) =>
+    store.add(entry),
+  );
+}
+
+/** Every entry, newest first. */
+export async function loadAuditLog(): Promise<AuditEntry[]> {
+  const entries = await withStore<AuditEntry[]>(
+    STORES.auditLog,
+    "readonly",
+    (store) => store.getAll(),
+  );
+  return entries.reverse();
+}
+
+export function clearAuditLog() {
+  return withStore<undefined>(STORES.auditLog, "readwrite", (store) =>
+    store.clear(),
+  );
+}
+
+export function auditLogToCsv(entries: AuditEntry[]): string {
+  return toCsv(
+    [
+      "timestamp",
+      "account",
+      "repository",
+      "action",
+      "outcome",
+      "error",
+      "details",
+      "private",
+      "fork",
+      "archived",
+      "stars",
+      "forks",
+      "size_kb",
+      "pushed_at",
+    ],
+    entries.map((entry) => [
+      new Date(entry.timestamp).toISOString(),
+      entry.account,
+      entry.fullName,
+      entry.action,
+      entry.outcome,
+      entry.error,
+      entry.details ? JSON.stringify(entry.details) : "",
+      entry.snapshot.private,
+      entry.snapshot.fork,
+      entry.snapshot.archived,
+      entry.snapshot.stargazers_count,
+      entry.snapshot.forks_count,
+      entry.snapshot.size,
+      entry.snapshot.pushed_at,
+    ]),
+  );
+}
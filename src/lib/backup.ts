@@ -0,0 +1,93 @@
+import type { ArchiveFormat, GitHubClient, Repository } from "@/lib/github";
+
+export type { ArchiveFormat };
+
+export interface BackupOptions {
+  enabled: boolean;
+  format: ArchiveFormat;
+  includeMetadata: boolean;
+}
+
+export const DEFAULT_BACKUP_OPTIONS: BackupOptions = {
+  enabled: false,
+  format: "zipball",
+  includeMetadata: false,
+};
+
+const ARCHIVE_EXTENSIONS: Record<ArchiveFormat, string> = {
+  tarball: "tar.gz",
+  zipball: "zip",
+};
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Downloads the repository archive (and optionally its issues, releases and
+ * wiki metadata as JSON) to the user's machine. Throws if any part fails so
+ * callers can refuse to delete a repository without a complete backup.
+ */
+export async function backupRepository(
+  repo: Pick<Repository, "full_name">,
+  client: GitHubClient,
+  options: BackupOptions,
+) {
+  const filePrefix = repo.full_name.replace("/", "-");
+
+  let archive: Blob;
+  try {
+    archive = await client.downloadArchive(repo.full_name, options.format);
+  } catch (error) {
+    throw new Error(
+      `Failed to download archive: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+
+  let metadata: Blob | null = null;
+  if (options.includeMetadata) {
+    try {
+      const [details, issues, releases] = await Promise.all([
+        client.getRepo(repo.full_name),
+        client.listIssues(repo.full_name),
+        client.listReleases(repo.full_name),
+      ]);
+      metadata = new Blob(
+        [
+          JSON.stringify(
+            {
+              exported_at: new Date().toISOString(),
+              repository: details,
+              wiki: {
+                has_wiki: details.has_wiki,
+                clone_url: details.has_wiki
+                  ? `${details.html_url}.wiki.git`
+                  : null,
+              },
+              issues,
+              releases,
+            },
+            null,
+            2,
+          ),
+        ],
+        { type: "application/json" },
+      );
+    } catch (error) {
+      throw new Error(
+        `Failed to export metadata: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+
+  downloadBlob(archive, `${filePrefix}.${ARCHIVE_EXTENSIONS[options.format]}`);
+  if (metadata) downloadBlob(metadata, `${filePrefix}-metadata.json`);
+}
@@ -0,0 +1,51 @@
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@]/;
+
+function escapeCell(value: unknown): string {
+  let text = value === null || value === undefined ? "" : String(value);
+  if (FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Builds RFC 4180 CSV text from a header row and data rows. Cells that a
+ * spreadsheet would read as a formula are prefixed with `'`.
+ */
+export function toCsv(header: string[], rows: unknown[][]): string {
+  return [header, ...rows]
+    .map((row) => row.map(escapeCell).join(","))
+    .join("\r\n");
+}
+
+/**
+ * Splits one CSV line into cells, honouring quoted cells and doubled quotes.
+ * Quoted cells spanning several lines are not supported.
+ */
+export function parseCsvRow(line: string, delimiter = ","): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === "") {
+      cell = "";
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
@@ -0,0 +1,66 @@
+import type { MutationRequest } from "@/lib/github";
+
+export interface DryRunEntry extends MutationRequest {
+  id: string;
+  /** Epoch milliseconds when the request was intercepted. */
+  timestamp: number;
+  /** The repository the request targets, when it targets one. */
+  fullName: string | null;
+  /** Human-readable summary, e.g. "Archive" or "Transfer to octo-org". */
+  summary: string;
+}
+
+const REPO_PATH = /\/repos\/([^/?#]+\/[^/?#]+)/;
+
+export function createDryRunEntry(request: MutationRequest): DryRunEntry {
+  const fullName = REPO_PATH.exec(request.url)?.[1] ?? null;
+  return {
+    ...request,
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    fullName,
+    summary: describeMutation(request),
+  };
+}
+
+function describeMutation({ method, url, body }: MutationRequest): string {
+  const changes = (body ?? {}) as Record<string, unknown>;
+  if (method === "DELETE" && REPO_PATH.test(url)) return "Delete";
+  if (method === "POST" && url.endsWith("/transfer")) {
+    return `Transfer to ${changes.new_owner}`;
+  }
+  if (method === "PATCH") {
+    const parts: string[] = [];
+    if ("archived" in changes) {
+      parts.push(changes.archived ? "Archive" : "Unarchive");
+    }
+    if ("private" in changes) {
+      parts.push(changes.private ? "Make private" : "Make public");
+    }
+    if (parts.length > 0) return parts.join(", ");
+  }
+  return `${method} ${new URL(url).pathname}`;
+}
+
+/** Renders intercepted requests as a Markdown report. */
+export function formatDryRunReport(entries: DryRunEntry[]): string {
+  const lines = [
+    "# Dry run report",
+    "",
+    `${entries.length} ${entries.length === 1 ? "request was" : "requests were"} intercepted; nothing was sent to GitHub.`,
+    "",
+  ];
+  entries.forEach((entry, index) => {
+    lines.push(
+      `## ${index + 1}. ${entry.summary}${entry.fullName ? ` — ${entry.fullName}` : ""}`,
+      "",
+      `- Time: ${new Date(entry.timestamp).toISOString()}`,
+      `- Request: \`${entry.method} ${entry.url}\``,
+    );
+    if (entry.body !== undefined) {
+      lines.push("", "```json", JSON.stringify(entry.body, null, 2), "```");
+    }
+    lines.push("");
+  });
+  return lines.join("\n");
+}
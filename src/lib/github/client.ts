@@ -0,0 +1,553 @@
+import { GitHubApiError, GitHubGraphQLError } from "./errors";
+import {
+  mapRepositoryNode,
+  ORG_REPOSITORIES_QUERY,
+  VIEWER_REPOSITORIES_QUERY,
+  type RepositoryConnection,
+} from "./graphql";
+import { getNextUrlFromLink } from "./pagination";
+import {
+  getRateLimitDelay,
+  parseRateLimit,
+  sleep,
+  type RateLimitListener,
+  type RateLimitStatus,
+} from "./rate-limit";
+import type { ResponseCache } from "./response-cache";
+import {
+  describeCapabilities,
+  getTokenKind,
+  parseScopes,
+  type TokenInspection,
+} from "./token-scopes";
+import type {
+  ArchiveFormat,
+  ForkDivergence,
+  GitHubOrg,
+  GitHubUser,
+  ListProgressCallback,
+  ListResult,
+  Repository,
+  RepositoryDetails,
+  RepositoryUpdate,
+} from "./types";
+
+export const DEFAULT_API_BASE_URL = "https://api.github.com";
+
+export interface GitHubClientOptions {
+  token: string;
+  baseUrl?: string;
+  fetch?: typeof fetch;
+  /** Enables conditional requests for list pages. */
+  cache?: ResponseCache;
+  /**
+   * Dry-run mode: mutating requests are handed to this callback instead of
+   * being sent to GitHub.
+   */
+  dryRun?: (request: MutationRequest) => void;
+}
+
+/** A request that would change something on GitHub. */
+export interface MutationRequest {
+  method: string;
+  url: string;
+  body?: unknown;
+}
+
+interface RequestOptions {
+  method?: string;
+  body?: unknown;
+  signal?: AbortSignal;
+  accept?: string;
+  headers?: Record<string, string>;
+  /** Marks a POST that only reads, such as a GraphQL query. */
+  readOnly?: boolean;
+}
+
+interface Page<T> {
+  items: T[];
+  link: string | null;
+  notModified: boolean;
+}
+
+const PER_PAGE = 100;
+const MAX_RATE_LIMIT_RETRIES = 5;
+/** How long GraphQL details are reused while the REST listing is unchanged. */
+const GRAPHQL_DETAILS_MAX_AGE_MS = 60 * 60_000;
+
+/**
+ * Whether a failed GraphQL listing should be retried over REST. Only errors
+ * reported by GraphQL itself or a missing endpoint qualify; auth, network
+ * and rate limit failures would fail over REST just the same.
+ */
+function isGraphQLFailure(error: unknown) {
+  return (
+    error instanceof GitHubGraphQLError ||
+    (error instanceof GitHubApiError && error.status === 404)
+  );
+}
+
+export class GitHubClient {
+  private readonly token: string;
+  private readonly baseUrl: string;
+  private readonly fetchImpl: typeof fetch;
+  private readonly cache: ResponseCache | undefined;
+  private readonly dryRun: GitHubClientOptions["dryRun"];
+  /** Set once GraphQL proved unusable, so later loads go straight to REST. */
+  private graphqlUnavailable = false;
+  private rateLimitStatus: RateLimitStatus = {
+    rateLimit: null,
+    waitingUntil: null,
+    reason: null,
+  };
+  private readonly listeners = new Set<RateLimitListener>();
+
+  constructor({
+    token,
+    baseUrl,
+    fetch: fetchImpl,
+    cache,
+    dryRun,
+  }: GitHubClientOptions) {
+    this.token = token;
+    this.baseUrl = (baseUrl ?? DEFAULT_API_BASE_URL).replace(/\/+$/, "");
+    this.fetchImpl = fetchImpl ?? globalThis.fetch.bind(globalThis);
+    this.cache = cache;
+    this.dryRun = dryRun;
+  }
+
+  getRateLimitStatus(): RateLimitStatus {
+    return this.rateLimitStatus;
+  }
+
+  /** Registers a listener for quota changes; returns an unsubscribe function. */
+  subscribeRateLimit(listener: RateLimitListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setRateLimitStatus(next: Partial<RateLimitStatus>) {
+    this.rateLimitStatus = { ...this.rateLimitStatus, ...next };
+    this.listeners.forEach((listener) => listener(this.rateLimitStatus));
+  }
+
+  /**
+   * Sends a request to `path` (relative to the base URL, or an absolute URL
+   * such as a pagination link) and throws a GitHubApiError on non-2xx.
+   * Rate-limited responses are retried once the quota resets or the
+   * `Retry-After` delay has passed. A 304 to a conditional request is
+   * returned as is. In dry-run mode mutations are recorded, not sent.
+   */
+  async request(
+    path: string,
+    {
+      method = "GET",
+      body,
+      signal,
+      accept,
+      headers: extraHeaders,
+      readOnly = false,
+    }: RequestOptions = {},
+  ): Promise<Response> {
+    const url = this.resolveUrl(path);
+    if (this.dryRun && !readOnly && method !== "GET" && method !== "HEAD") {
+      this.dryRun({ method, url, body });
+      // Echoing the body back lets callers apply a PATCH as if it succeeded
+      return body === undefined
+        ? new Response(null, { status: 204 })
+        : new Response(JSON.stringify(body), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+    }
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      Authorization: `token ${this.token}`,
+      Accept: accept ?? "application/vnd.github.v3+json",
+    };
+    if (body !== undefined) headers["Content-Type"] = "application/json";
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.fetchImpl(url, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal,
+      });
+      const rateLimit = parseRateLimit(response.headers);
+      // GraphQL and search have their own quotas; mixing them in would make
+      // the meter jump between unrelated numbers
+      if (rateLimit && (rateLimit.resource ?? "core") === "core") {
+        this.setRateLimitStatus({ rateLimit });
+      }
+      if (response.ok || response.status === 304) return response;
+
+      const backoff =
+        attempt < MAX_RATE_LIMIT_RETRIES
+          ? await getRateLimitDelay(response)
+          : null;
+      if (!backoff) {
+        throw await GitHubApiError.fromResponse(response);
+      }
+      const until = Date.now() + backoff.delayMs;
+      // Another request may already be waiting for a later reset
+      if ((this.rateLimitStatus.waitingUntil ?? 0) < until) {
+        this.setRateLimitStatus({
+          waitingUntil: until,
+          reason: backoff.reason,
+        });
+      }
+      try {
+        await sleep(backoff.delayMs, signal);
+      } finally {
+        if (
+          this.rateLimitStatus.waitingUntil !== null &&
+          this.rateLimitStatus.waitingUntil <= Date.now()
+        ) {
+          this.setRateLimitStatus({ waitingUntil: null, reason: null });
+        }
+      }
+    }
+  }
+
+  private resolveUrl(path: string) {
+    return /^https?:\/\//.test(path) ? path : `${this.baseUrl}${path}`;
+  }
+
+  async requestJson<T>(path: string, options?: RequestOptions): Promise<T> {
+    const response = await this.request(path, options);
+    return response.json();
+  }
+
+  /**
+   * Fetches one list page. With a response cache, the stored ETag (or
+   * Last-Modified date) is sent along and a 304, which doesn't count against
+   * the rate limit, is answered from the cache.
+   */
+  private async fetchPage<T>(
+    path: string,
+    signal?: AbortSignal,
+  ): Promise<Page<T>> {
+    const url = this.resolveUrl(path);
+    const cached = await this.cache?.get(url);
+    const headers: Record<string, string> = {};
+    if (cached?.etag) {
+      headers["If-None-Match"] = cached.etag;
+    } else if (cached?.lastModified) {
+      headers["If-Modified-Since"] = cached.lastModified;
+    }
+    const response = await this.request(url, { signal, headers });
+    if (response.status === 304 && cached) {
+      return {
+        items: cached.body as T[],
+        link: cached.link,
+        notModified: true,
+      };
+    }
+    const data = await response.json();
+    if (!Array.isArray(data)) {
+      throw new Error("Unexpected response shape from GitHub API");
+    }
+    const link = response.headers.get("link");
+    await this.cache?.set(url, {
+      etag: response.headers.get("etag"),
+      lastModified: response.headers.get("last-modified"),
+      body: data,
+      link,
+    });
+    return { items: data, link, notModified: false };
+  }
+
+  /** Yields each page of a paginated list endpoint, following Link headers. */
+  async *paginate<T>(
+    path: string,
+    signal?: AbortSignal,
+  ): AsyncGenerator<T[], void, undefined> {
+    let url: string | null = path;
+    while (url) {
+      const page: Page<T> = await this.fetchPage<T>(url, signal);
+      yield page.items;
+      url = getNextUrlFromLink(page.link);
+    }
+  }
+
+  /** Like paginateAll, but also reports how many pages came from cache. */
+  async listAll<T>(
+    path: string,
+    signal?: AbortSignal,
+    onProgress?: ListProgressCallback<T>,
+  ): Promise<ListResult<T>> {
+    const result: ListResult<T> = { items: [], pages: 0, notModifiedPages: 0 };
+    let url: string | null = path;
+    while (url) {
+      const page: Page<T> = await this.fetchPage<T>(url, signal);
+      result.items.push(...page.items);
+      result.pages++;
+      if (page.notModified) result.notModifiedPages++;
+      url = getNextUrlFromLink(page.link);
+      if (url) onProgress?.(result);
+    }
+    return result;
+  }
+
+  async paginateAll<T>(path: string, signal?: AbortSignal): Promise<T[]> {
+    const items: T[] = [];
+    for await (const page of this.paginate<T>(path, signal)) {
+      items.push(...page);
+    }
+    return items;
+  }
+
+  getAuthenticatedUser(signal?: AbortSignal) {
+    return this.requestJson<GitHubUser>("/user", { signal });
+  }
+
+  /**
+   * Fetches the token's owner together with what the token is allowed to
+   * do, based on the `X-OAuth-Scopes` response header.
+   */
+  async inspectToken(signal?: AbortSignal): Promise<TokenInspection> {
+    const response = await this.request("/user", { signal });
+    const user: GitHubUser = await response.json();
+    const scopes = parseScopes(response.headers.get("x-oauth-scopes"));
+    const kind = getTokenKind(this.token, scopes);
+    return {
+      user,
+      kind,
+      scopes,
+      capabilities: describeCapabilities(kind, scopes),
+    };
+  }
+
+  listUserRepos(
+    signal?: AbortSignal,
+    onProgress?: ListProgressCallback<Repository>,
+  ) {
+    return this.listAll<Repository>(
+      `/user/repos?per_page=${PER_PAGE}&sort=updated&type=owner`,
+      signal,
+      onProgress,
+    );
+  }
+
+  /** The GraphQL endpoint: `/graphql`, or `/api/graphql` on GHES. */
+  private get graphqlUrl() {
+    return /\/api\/v3$/.test(this.baseUrl)
+      ? this.baseUrl.replace(/\/api\/v3$/, "/api/graphql")
+      : `${this.baseUrl}/graphql`;
+  }
+
+  async graphql<T>(
+    query: string,
+    variables: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const payload = await this.requestJson<{
+      data?: T;
+      errors?: { message: string; type?: string }[];
+    }>(this.graphqlUrl, {
+      method: "POST",
+      body: { query, variables },
+      signal,
+      readOnly: !/^\s*mutation\b/.test(query),
+    });
+    if (payload.errors?.length) {
+      throw new GitHubGraphQLError(payload.errors);
+    }
+    return payload.data as T;
+  }
+
+  /**
+   * Lists repositories through GraphQL, which includes issue, pull request,
+   * release and branch protection data the REST listing lacks. `owner` is
+   * an org login, or null for the authenticated user.
+   */
+  async listReposGraphQL(
+    owner: string | null,
+    signal?: AbortSignal,
+    onProgress?: ListProgressCallback<Repository>,
+  ): Promise<ListResult<Repository>> {
+    const result: ListResult<Repository> = {
+      items: [],
+      pages: 0,
+      notModifiedPages: 0,
+      source: "graphql",
+      detailsFetchedAt: Date.now(),
+    };
+    let cursor: string | null = null;
+    do {
+      const data = await this.graphql<{
+        viewer?: { repositories: RepositoryConnection };
+        organization?: { repositories: RepositoryConnection } | null;
+      }>(
+        owner ? ORG_REPOSITORIES_QUERY : VIEWER_REPOSITORIES_QUERY,
+        owner ? { login: owner, cursor } : { cursor },
+        signal,
+      );
+      const connection = owner
+        ? data.organization?.repositories
+        : data.viewer?.repositories;
+      if (!connection) {
+        throw new Error(`Could not load repositories for ${owner}`);
+      }
+      result.items.push(...connection.nodes.map(mapRepositoryNode));
+      result.pages++;
+      result.total = connection.totalCount;
+      cursor = connection.pageInfo.hasNextPage
+        ? connection.pageInfo.endCursor
+        : null;
+      if (cursor) onProgress?.(result);
+    } while (cursor);
+    return result;
+  }
+
+  /**
+   * Lists repositories via GraphQL, falling back to REST when it fails.
+   * GraphQL POSTs can't be revalidated, so when `previous` is a complete
+   * GraphQL listing the REST pages are checked with conditional requests
+   * first; if none changed, `previous` is kept without a GraphQL reload.
+   * GraphQL-only details (pull requests, releases, branch protection) are
+   * still reloaded once they are an hour old.
+   */
+  async listRepos(
+    owner: string | null,
+    signal?: AbortSignal,
+    onProgress?: ListProgressCallback<Repository>,
+    previous?: ListResult<Repository>,
+  ): Promise<ListResult<Repository>> {
+    if (!this.graphqlUnavailable) {
+      if (
+        this.cache &&
+        previous?.source === "graphql" &&
+        !previous.partial &&
+        Date.now() - (previous.detailsFetchedAt ?? 0) <
+          GRAPHQL_DETAILS_MAX_AGE_MS
+      ) {
+        const rest = await this.listRestRepos(owner, signal);
+        if (rest.pages > 0 && rest.notModifiedPages === rest.pages) {
+          return {
+            ...previous,
+            pages: rest.pages,
+            notModifiedPages: rest.notModifiedPages,
+          };
+        }
+      }
+      let firstPageLoaded = false;
+      try {
+        return await this.listReposGraphQL(owner, signal, (progress) => {
+          firstPageLoaded = true;
+          onProgress?.(progress);
+        });
+      } catch (error) {
+        if (!isGraphQLFailure(error)) throw error;
+        // Disabled on some GHES instances or blocked for the token. A failure
+        // after the first page or a GraphQL rate limit only affects this load
+        const rateLimited =
+          error instanceof GitHubGraphQLError &&
+          error.errors.some((e) => e.type === "RATE_LIMITED");
+        if (!firstPageLoaded && !rateLimited) this.graphqlUnavailable = true;
+      }
+    }
+    return this.listRestRepos(owner, signal, onProgress);
+  }
+
+  private async listRestRepos(
+    owner: string | null,
+    signal?: AbortSignal,
+    onProgress?: ListProgressCallback<Repository>,
+  ): Promise<ListResult<Repository>> {
+    const result = await (owner
+      ? this.listOrgRepos(owner, signal, onProgress)
+      : this.listUserRepos(signal, onProgress));
+    return { ...result, source: "rest" };
+  }
+
+  listUserOrgs(signal?: AbortSignal) {
+    return this.paginateAll<GitHubOrg>(
+      `/user/orgs?per_page=${PER_PAGE}`,
+      signal,
+    );
+  }
+
+  listOrgRepos(
+    org: string,
+    signal?: AbortSignal,
+    onProgress?: ListProgressCallback<Repository>,
+  ) {
+    return this.listAll<Repository>(
+      `/orgs/${org}/repos?per_page=${PER_PAGE}&sort=updated`,
+      signal,
+      onProgress,
+    );
+  }
+
+  getRepo(fullName: string, signal?: AbortSignal) {
+    return this.requestJson<RepositoryDetails>(`/repos/${fullName}`, {
+      signal,
+    });
+  }
+
+  /**
+   * Compares a fork's default branch with its parent's default branch to
+   * find out whether the fork carries any commits of its own.
+   */
+  async getForkDivergence(
+    fullName: string,
+    signal?: AbortSignal,
+  ): Promise<ForkDivergence> {
+    const fork = await this.getRepo(fullName, signal);
+    if (!fork.parent) {
+      throw new Error(`${fullName} is not a fork`);
+    }
+    const { parent } = fork;
+    const comparison = await this.requestJson<{
+      ahead_by: number;
+      behind_by: number;
+    }>(
+      `/repos/${parent.full_name}/compare/${encodeURIComponent(parent.default_branch)}...${fork.owner.login}:${encodeURIComponent(fork.default_branch)}`,
+      { signal },
+    );
+    return {
+      parentFullName: parent.full_name,
+      aheadBy: comparison.ahead_by,
+      behindBy: comparison.behind_by,
+    };
+  }
+
+  updateRepo(fullName: string, changes: RepositoryUpdate) {
+    return this.requestJson<Repository>(`/repos/${fullName}`, {
+      method: "PATCH",
+      body: changes,
+    });
+  }
+
+  async deleteRepo(fullName: string) {
+    await this.request(`/repos/${fullName}`, { method: "DELETE" });
+  }
+
+  transferRepo(fullName: string, newOwner: string) {
+    return this.requestJson<Repository>(`/repos/${fullName}/transfer`, {
+      method: "POST",
+      body: { new_owner: newOwner },
+    });
+  }
+
+  async downloadArchive(fullName: string, format: ArchiveFormat) {
+    const response = await this.request(`/repos/${fullName}/${format}`);
+    return response.blob();
+  }
+
+  listIssues(fullName: string) {
+    return this.paginateAll<Record<string, unknown>>(
+      `/repos/${fullName}/issues?state=all&per_page=${PER_PAGE}`,
+    );
+  }
+
+  listReleases(fullName: string) {
+    return this.paginateAll<Record<string, unknown>>(
+      `/repos/${fullName}/releases?per_page=${PER_PAGE}`,
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { GitHubApiError } from "./errors";
+import { sleep } from "./rate-limit";
+
+export const DEFAULT_OAUTH_BASE_URL = "https://github.com";
+export const DEVICE_FLOW_SCOPES = "repo delete_repo read:org";
+
+export interface DeviceFlowOptions {
+  clientId: string;
+  /** Host serving `/login/device/code` and `/login/oauth/access_token`. */
+  baseUrl?: string;
+  scope?: string;
+  fetch?: typeof fetch;
+}
+
+export interface DeviceCode {
+  deviceCode: string;
+  userCode: string;
+  verificationUri: string;
+  /** Epoch milliseconds after which the code can no longer be used. */
+  expiresAt: number;
+  /** Minimum polling interval in seconds. */
+  interval: number;
+}
+
+async function postForm<T>(
+  { baseUrl = DEFAULT_OAUTH_BASE_URL, fetch: fetchImpl }: DeviceFlowOptions,
+  path: string,
+  params: Record<string, string>,
+  signal?: AbortSignal,
+): Promise<T> {
+  const doFetch = fetchImpl ?? globalThis.fetch.bind(globalThis);
+  let response: Response;
+  try {
+    response = await doFetch(`${baseUrl.replace(/\/+$/, "")}${path}`, {
+      method: "POST",
+      headers: {
+        Accept: "application/json",
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams(params).toString(),
+      signal,
+    });
+  } catch (error) {
+    // Browsers report a blocked cross-origin request as a bare TypeError
+    if (error instanceof TypeError) {
+      throw new Error(
+        `Could not reach ${baseUrl}. GitHub's OAuth endpoints do not allow requests from browsers (no CORS headers), so the endpoint base must be a CORS-enabled proxy in front of them.`,
+      );
+    }
+    throw error;
+  }
+  if (!response.ok) {
+    throw await GitHubApiError.fromResponse(response);
+  }
+  return response.json();
+}
+
+export async function requestDeviceCode(
+  options: DeviceFlowOptions,
+  signal?: AbortSignal,
+): Promise<DeviceCode> {
+  const data = await postForm<{
+    device_code: string;
+    user_code: string;
+    verification_uri: string;
+    expires_in: number;
+    interval: number;
+    error?: string;
+    error_description?: string;
+  }>(
+    options,
+    "/login/device/code",
+    {
+      client_id: options.clientId,
+      scope: options.scope ?? DEVICE_FLOW_SCOPES,
+    },
+    signal,
+  );
+  if (data.error) {
+    throw new Error(data.error_description || data.error);
+  }
+  return {
+    deviceCode: data.device_code,
+    userCode: data.user_code,
+    verificationUri: data.verification_uri,
+    expiresAt: Date.now() + data.expires_in * 1000,
+    interval: data.interval,
+  };
+}
+
+/**
+ * Polls until the user approves the device code, honouring `slow_down`
+ * responses, and resolves with the access token.
+ */
+export async function pollForAccessToken(
+  options: DeviceFlowOptions,
+  code: DeviceCode,
+  signal?: AbortSignal,
+): Promise<string> {
+  let interval = code.interval;
+  while (Date.now() < code.expiresAt) {
+    await sleep(interval * 1000, signal);
+    const data = await postForm<{
+      access_token?: string;
+      error?: string;
+      error_description?: string;
+      interval?: number;
+    }>(
+      options,
+      "/login/oauth/access_token",
+      {
+        client_id: options.clientId,
+        device_code: code.deviceCode,
+        grant_type: "urn:ietf:params:oauth:grant-type:device_code",
+      },
+      signal,
+    );
+    if (data.access_token) return data.access_token;
+    switch (data.error) {
+      case "authorization_pending":
+        break;
+      case "slow_down":
+        interval = data.interval ?? interval + 5;
+        break;
+      default:
+        throw new Error(
+          data.error_description || data.error || "Authorization failed",
+        );
+    }
+  }
+  throw new Error("The device code expired before it was authorized");
+}
@@ -0,0 +1,56 @@
+/**
+ * Error thrown for any non-2xx response from the GitHub API. Carries the
+ * HTTP status together with GitHub's own `message` and `documentation_url`.
+ */
+export class GitHubApiError extends Error {
+  readonly status: number;
+  readonly statusText: string;
+  readonly githubMessage?: string;
+  readonly documentationUrl?: string;
+
+  constructor(
+    status: number,
+    statusText: string,
+    githubMessage?: string,
+    documentationUrl?: string,
+  ) {
+    super(
+      `${status} ${statusText}`.trim() +
+        (githubMessage ? ` — ${githubMessage}` : ""),
+    );
+    this.name = "GitHubApiError";
+    this.status = status;
+    this.statusText = statusText;
+    this.githubMessage = githubMessage;
+    this.documentationUrl = documentationUrl;
+  }
+
+  static async fromResponse(response: Response): Promise<GitHubApiError> {
+    let body: { message?: string; documentation_url?: string } | null = null;
+    try {
+      body = await response.json();
+    } catch {
+      // Body is empty or not JSON; fall back to the status line
+    }
+    return new GitHubApiError(
+      response.status,
+      response.statusText,
+      body?.message,
+      body?.documentation_url,
+    );
+  }
+}
+
+/**
+ * Error thrown when a GraphQL response carries an `errors` array. GitHub
+ * answers these with HTTP 200, so they never become a GitHubApiError.
+ */
+export class GitHubGraphQLError extends Error {
+  readonly errors: { message: string; type?: string }[];
+
+  constructor(errors: { message: string; type?: string }[]) {
+    super(errors.map((error) => error.message).join("; "));
+    this.name = "GitHubGraphQLError";
+    this.errors = errors;
+  }
+}
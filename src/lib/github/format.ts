@@ -0,0 +1,7 @@
+/** Formats a repository's `size`, which GitHub reports in kilobytes. */
+export function formatDiskUsage(kilobytes: number) {
+  if (kilobytes < 1024) return `${kilobytes} KB`;
+  const megabytes = kilobytes / 1024;
+  if (megabytes < 1024) return `${megabytes.toFixed(1)} MB`;
+  return `${(megabytes / 1024).toFixed(1)} GB`;
+}
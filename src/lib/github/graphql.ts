@@ -0,0 +1,152 @@
+import type { RepoPermissions, Repository } from "./types";
+
+/** Smaller than REST's 100: each node pulls several nested connections. */
+export const GRAPHQL_PAGE_SIZE = 50;
+
+const REPOSITORY_FIELDS = `
+  databaseId
+  name
+  nameWithOwner
+  description
+  url
+  stargazerCount
+  forkCount
+  primaryLanguage { name }
+  isPrivate
+  isFork
+  isArchived
+  owner { login avatarUrl url }
+  createdAt
+  updatedAt
+  pushedAt
+  diskUsage
+  viewerPermission
+  repositoryTopics(first: 20) { nodes { topic { name } } }
+  issues(states: OPEN) { totalCount }
+  pullRequests(states: OPEN) { totalCount }
+  latestRelease { tagName publishedAt }
+  defaultBranchRef {
+    name
+    branchProtectionRule { id }
+    target { ... on Commit { committedDate } }
+  }
+`;
+
+const repositoriesConnection = (extraArgs = "") => `
+  repositories(
+    first: ${GRAPHQL_PAGE_SIZE}
+    after: $cursor
+    ${extraArgs}
+    orderBy: { field: UPDATED_AT, direction: DESC }
+  ) {
+    totalCount
+    pageInfo { hasNextPage endCursor }
+    nodes { ${REPOSITORY_FIELDS} }
+  }
+`;
+
+export const VIEWER_REPOSITORIES_QUERY = `
+  query ($cursor: String) {
+    viewer { ${repositoriesConnection("ownerAffiliations: OWNER")} }
+  }
+`;
+
+export const ORG_REPOSITORIES_QUERY = `
+  query ($login: String!, $cursor: String) {
+    organization(login: $login) { ${repositoriesConnection()} }
+  }
+`;
+
+type ViewerPermission = "ADMIN" | "MAINTAIN" | "WRITE" | "TRIAGE" | "READ";
+
+export interface RepositoryNode {
+  databaseId: number;
+  name: string;
+  nameWithOwner: string;
+  description: string | null;
+  url: string;
+  stargazerCount: number;
+  forkCount: number;
+  primaryLanguage: { name: string } | null;
+  isPrivate: boolean;
+  isFork: boolean;
+  isArchived: boolean;
+  owner: { login: string; avatarUrl: string; url: string };
+  createdAt: string;
+  updatedAt: string;
+  pushedAt: string | null;
+  diskUsage: number | null;
+  viewerPermission: ViewerPermission | null;
+  repositoryTopics: { nodes: { topic: { name: string } }[] };
+  issues: { totalCount: number };
+  pullRequests: { totalCount: number };
+  latestRelease: { tagName: string; publishedAt: string | null } | null;
+  defaultBranchRef: {
+    name: string;
+    branchProtectionRule: { id: string } | null;
+    target: { committedDate?: string } | null;
+  } | null;
+}
+
+export interface RepositoryConnection {
+  totalCount: number;
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  nodes: RepositoryNode[];
+}
+
+const PERMISSION_RANK: ViewerPermission[] = [
+  "READ",
+  "TRIAGE",
+  "WRITE",
+  "MAINTAIN",
+  "ADMIN",
+];
+
+function toPermissions(permission: ViewerPermission | null): RepoPermissions {
+  const rank = permission ? PERMISSION_RANK.indexOf(permission) : 0;
+  return {
+    pull: true,
+    triage: rank >= 1,
+    push: rank >= 2,
+    maintain: rank >= 3,
+    admin: rank >= 4,
+  };
+}
+
+/** Maps a GraphQL repository node onto the REST-shaped Repository. */
+export function mapRepositoryNode(node: RepositoryNode): Repository {
+  const branch = node.defaultBranchRef;
+  return {
+    id: node.databaseId,
+    name: node.name,
+    full_name: node.nameWithOwner,
+    description: node.description,
+    html_url: node.url,
+    stargazers_count: node.stargazerCount,
+    forks_count: node.forkCount,
+    language: node.primaryLanguage?.name ?? null,
+    private: node.isPrivate,
+    owner: {
+      login: node.owner.login,
+      avatar_url: node.owner.avatarUrl,
+      html_url: node.owner.url,
+    },
+    fork: node.isFork,
+    archived: node.isArchived,
+    default_branch: branch?.name ?? "",
+    created_at: node.createdAt,
+    updated_at: node.updatedAt,
+    pushed_at: node.pushedAt,
+    size: node.diskUsage ?? 0,
+    topics: node.repositoryTopics.nodes.map(({ topic }) => topic.name),
+    permissions: toPermissions(node.viewerPermission),
+    open_issues_count: node.issues.totalCount,
+    open_pull_requests_count: node.pullRequests.totalCount,
+    last_commit_at: branch?.target?.committedDate ?? null,
+    default_branch_protected: !!branch?.branchProtectionRule,
+    latest_release: node.latestRelease && {
+      tag_name: node.latestRelease.tagName,
+      published_at: node.latestRelease.publishedAt,
+    },
+  };
+}
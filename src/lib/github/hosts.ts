@@ -0,0 +1,44 @@
+import { DEFAULT_API_BASE_URL } from "./client";
+
+const DOTCOM_HOSTS = ["github.com", "api.github.com", "www.github.com"];
+
+/**
+ * Turns what a user typed as the API endpoint into a REST base URL:
+ * github.com maps to api.github.com and an enterprise host gains `/api/v3`.
+ * Throws when the input isn't a usable http(s) URL.
+ */
+export function normalizeApiBaseUrl(input: string): string {
+  const trimmed = input.trim();
+  if (!trimmed) return DEFAULT_API_BASE_URL;
+  const url = new URL(
+    /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`,
+  );
+  if (!["http:", "https:"].includes(url.protocol) || !url.hostname) {
+    throw new Error("The API endpoint must be an http(s) URL");
+  }
+  if (DOTCOM_HOSTS.includes(url.hostname.toLowerCase())) {
+    return DEFAULT_API_BASE_URL;
+  }
+  const path = url.pathname.replace(/\/+$/, "");
+  return `${url.origin}${/\/api\/v3$/i.test(path) ? path : `${path}/api/v3`}`;
+}
+
+export function isEnterpriseHost(apiBaseUrl: string | undefined): boolean {
+  return !!apiBaseUrl && apiBaseUrl !== DEFAULT_API_BASE_URL;
+}
+
+/** The web UI root for an API base URL, e.g. for settings links. */
+export function getWebBaseUrl(apiBaseUrl: string | undefined): string {
+  if (!isEnterpriseHost(apiBaseUrl)) return "https://github.com";
+  return apiBaseUrl.replace(/\/api\/v3$/i, "");
+}
+
+/**
+ * github.com tokens carry a type prefix; enterprise versions before 3.2 issue
+ * 40-character hex tokens, so only the character set is checked there.
+ */
+export function getTokenPattern(apiBaseUrl: string | undefined): RegExp {
+  return isEnterpriseHost(apiBaseUrl)
+    ? /^[a-zA-Z0-9_]+$/
+    : /^(ghp_|gho_|github_pat_)[a-zA-Z0-9_]+$/;
+}
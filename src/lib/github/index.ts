@@ -0,0 +1,33 @@
+export { GitHubClient, DEFAULT_API_BASE_URL } from "./client";
+export type { GitHubClientOptions, MutationRequest } from "./client";
+export {
+  DEFAULT_OAUTH_BASE_URL,
+  DEVICE_FLOW_SCOPES,
+  pollForAccessToken,
+  requestDeviceCode,
+} from "./device-flow";
+export type { DeviceCode, DeviceFlowOptions } from "./device-flow";
+export { GitHubApiError, GitHubGraphQLError } from "./errors";
+export { formatDiskUsage } from "./format";
+export {
+  getTokenPattern,
+  getWebBaseUrl,
+  isEnterpriseHost,
+  normalizeApiBaseUrl,
+} from "./hosts";
+export { getNextUrlFromLink } from "./pagination";
+export { createMemoryResponseCache } from "./response-cache";
+export type { CachedResponse, ResponseCache } from "./response-cache";
+export { canAdminister } from "./permissions";
+export type {
+  RateLimit,
+  RateLimitListener,
+  RateLimitStatus,
+} from "./rate-limit";
+export type {
+  CapabilityStatus,
+  TokenCapability,
+  TokenInspection,
+  TokenKind,
+} from "./token-scopes";
+export type * from "./types";
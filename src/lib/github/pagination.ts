@@ -0,0 +1,14 @@
+/** Returns the `rel="next"` URL from a GitHub `Link` header, if any. */
+export function getNextUrlFromLink(linkHeader: string | null): string | null {
+  if (!linkHeader) return null;
+  const parts = linkHeader.split(",");
+  for (const part of parts) {
+    const match = part.match(/<([^>]+)>;\s*rel="([^"]+)"/);
+    if (match) {
+      const url = match[1];
+      const rel = match[2];
+      if (rel === "next") return url;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,9 @@
+import type { Repository } from "./types";
+
+/**
+ * Whether the token can administer (delete, archive, transfer) the repo.
+ * Listings without a `permissions` block are the user's own repositories.
+ */
+export function canAdminister(repo: Pick<Repository, "permissions">) {
+  return repo.permissions?.admin ?? true;
+}
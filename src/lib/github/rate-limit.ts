@@ -0,0 +1,84 @@
+export interface RateLimit {
+  limit: number;
+  remaining: number;
+  /** Epoch milliseconds at which the quota window resets. */
+  resetAt: number;
+  resource: string | null;
+}
+
+export interface RateLimitStatus {
+  /** The REST (`core`) quota; other resources such as GraphQL are not shown. */
+  rateLimit: RateLimit | null;
+  /** Epoch milliseconds until which requests are paused, if any. */
+  waitingUntil: number | null;
+  reason: "primary" | "secondary" | null;
+}
+
+export type RateLimitListener = (status: RateLimitStatus) => void;
+
+/** Wait used for secondary limits that don't say how long to back off. */
+const SECONDARY_LIMIT_FALLBACK_MS = 60_000;
+
+export function parseRateLimit(headers: Headers): RateLimit | null {
+  const limit = headers.get("x-ratelimit-limit");
+  const remaining = headers.get("x-ratelimit-remaining");
+  const reset = headers.get("x-ratelimit-reset");
+  if (limit === null || remaining === null || reset === null) return null;
+  return {
+    limit: Number(limit),
+    remaining: Number(remaining),
+    resetAt: Number(reset) * 1000,
+    resource: headers.get("x-ratelimit-resource"),
+  };
+}
+
+/**
+ * Works out how long to back off for a rate-limited response, or returns
+ * null when the response is an ordinary error (e.g. a permissions 403).
+ */
+export async function getRateLimitDelay(
+  response: Response,
+): Promise<{ delayMs: number; reason: "primary" | "secondary" } | null> {
+  if (response.status !== 403 && response.status !== 429) return null;
+
+  const retryAfter = response.headers.get("retry-after");
+  if (retryAfter !== null && !Number.isNaN(Number(retryAfter))) {
+    return { delayMs: Number(retryAfter) * 1000, reason: "secondary" };
+  }
+
+  const rateLimit = parseRateLimit(response.headers);
+  if (rateLimit && rateLimit.remaining === 0) {
+    return {
+      delayMs: Math.max(0, rateLimit.resetAt - Date.now()) + 1000,
+      reason: "primary",
+    };
+  }
+
+  try {
+    const body = await response.clone().json();
+    if (typeof body?.message === "string" && /rate limit/i.test(body.message)) {
+      return { delayMs: SECONDARY_LIMIT_FALLBACK_MS, reason: "secondary" };
+    }
+  } catch {
+    // Not JSON; treat as a regular error
+  }
+  return null;
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Aborted", "AbortError"));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
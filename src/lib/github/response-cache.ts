@@ -0,0 +1,23 @@
+/** A stored list page, replayed when GitHub answers 304 Not Modified. */
+export interface CachedResponse {
+  etag: string | null;
+  lastModified: string | null;
+  body: unknown;
+  /** The page's `Link` header, so pagination continues from cache. */
+  link: string | null;
+}
+
+export interface ResponseCache {
+  get(url: string): Promise<CachedResponse | undefined>;
+  set(url: string, entry: CachedResponse): Promise<void>;
+}
+
+export function createMemoryResponseCache(): ResponseCache {
+  const entries = new Map<string, CachedResponse>();
+  return {
+    get: async (url) => entries.get(url),
+    set: async (url, entry) => {
+      entries.set(url, entry);
+    },
+  };
+}
@@ -0,0 +1,116 @@
+import type { GitHubUser } from "./types";
+
+export type TokenKind = "classic" | "oauth" | "fine-grained";
+
+export type CapabilityStatus = "granted" | "partial" | "missing" | "unknown";
+
+export interface TokenCapability {
+  id: "read" | "delete" | "admin_org";
+  label: string;
+  status: CapabilityStatus;
+  detail: string;
+}
+
+export interface TokenInspection {
+  user: GitHubUser;
+  kind: TokenKind;
+  /** Scopes from `X-OAuth-Scopes`; null for fine-grained tokens. */
+  scopes: string[] | null;
+  capabilities: TokenCapability[];
+}
+
+export function parseScopes(header: string | null): string[] | null {
+  if (header === null) return null;
+  return header
+    .split(",")
+    .map((scope) => scope.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Fine-grained tokens never send `X-OAuth-Scopes`, so a missing header is
+ * treated the same as the `github_pat_` prefix.
+ */
+export function getTokenKind(
+  token: string,
+  scopes: string[] | null,
+): TokenKind {
+  if (token.startsWith("github_pat_") || scopes === null) return "fine-grained";
+  if (token.startsWith("gho_")) return "oauth";
+  return "classic";
+}
+
+export function describeCapabilities(
+  kind: TokenKind,
+  scopes: string[] | null,
+): TokenCapability[] {
+  if (kind === "fine-grained" || scopes === null) {
+    const detail = "Depends on the repository permissions chosen for the token";
+    return [
+      {
+        id: "read",
+        label: "Read repositories",
+        status: "unknown",
+        detail: `${detail} (Metadata)`,
+      },
+      {
+        id: "delete",
+        label: "Delete repositories",
+        status: "unknown",
+        detail: `${detail} (Administration: write)`,
+      },
+      {
+        id: "admin_org",
+        label: "Manage organization repositories",
+        status: "unknown",
+        detail: "Depends on the resource owner selected for the token",
+      },
+    ];
+  }
+
+  const has = (scope: string) => scopes.includes(scope);
+  const canListOrgs = has("read:org") || has("write:org");
+  return [
+    has("repo")
+      ? {
+          id: "read",
+          label: "Read repositories",
+          status: "granted",
+          detail: "Public and private (repo)",
+        }
+      : {
+          id: "read",
+          label: "Read repositories",
+          status: "partial",
+          detail: "Public only; add the repo scope to see private ones",
+        },
+    has("delete_repo")
+      ? {
+          id: "delete",
+          label: "Delete repositories",
+          status: "granted",
+          detail: "delete_repo",
+        }
+      : {
+          id: "delete",
+          label: "Delete repositories",
+          status: "missing",
+          detail: "Deletes will fail without the delete_repo scope",
+        },
+    has("admin:org")
+      ? {
+          id: "admin_org",
+          label: "Manage organization repositories",
+          status: "granted",
+          detail: "admin:org",
+        }
+      : {
+          id: "admin_org",
+          label: "Manage organization repositories",
+          status: canListOrgs ? "partial" : "missing",
+          detail: canListOrgs
+            ? "Organizations are listed, but admin:org is not granted"
+            : "Organizations may be hidden without read:org or admin:org",
+        },
+  ];
+}
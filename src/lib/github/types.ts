@@ -0,0 +1,98 @@
+export interface RepoOwner {
+  login: string;
+  avatar_url?: string;
+  html_url?: string;
+}
+
+export interface RepoPermissions {
+  admin: boolean;
+  maintain?: boolean;
+  push: boolean;
+  triage?: boolean;
+  pull: boolean;
+}
+
+export interface Repository {
+  id: number;
+  name: string;
+  full_name: string;
+  description: string | null;
+  html_url: string;
+  stargazers_count: number;
+  forks_count: number;
+  language: string | null;
+  private: boolean;
+  owner: RepoOwner;
+  fork: boolean;
+  archived: boolean;
+  default_branch: string;
+  created_at: string;
+  updated_at: string;
+  pushed_at: string | null;
+  /** Disk usage in kilobytes. */
+  size: number;
+  topics?: string[];
+  permissions?: RepoPermissions;
+  /** Open issues; the REST API counts open pull requests here as well. */
+  open_issues_count?: number;
+  // The fields below are only present when loaded through GraphQL
+  open_pull_requests_count?: number;
+  /** Date of the latest commit on the default branch. */
+  last_commit_at?: string | null;
+  default_branch_protected?: boolean;
+  latest_release?: LatestRelease | null;
+}
+
+export interface LatestRelease {
+  tag_name: string;
+  published_at: string | null;
+}
+
+export interface RepositoryDetails extends Repository {
+  has_wiki: boolean;
+  parent?: Repository;
+  source?: Repository;
+}
+
+export type RepositoryUpdate = Partial<
+  Pick<Repository, "archived" | "private">
+>;
+
+export interface GitHubUser {
+  login: string;
+  name: string | null;
+  avatar_url: string;
+}
+
+export interface ForkDivergence {
+  parentFullName: string;
+  /** Commits on the fork's default branch that upstream doesn't have. */
+  aheadBy: number;
+  behindBy: number;
+}
+
+export interface GitHubOrg {
+  login: string;
+  avatar_url: string;
+  description: string | null;
+}
+
+export type ArchiveFormat = "tarball" | "zipball";
+
+export interface ListResult<T> {
+  items: T[];
+  pages: number;
+  /** Pages GitHub answered with 304 Not Modified, served from cache. */
+  notModifiedPages: number;
+  /** Expected item count, when the endpoint reports it up front. */
+  total?: number;
+  /** Set on snapshots taken while more pages are still loading. */
+  partial?: boolean;
+  /** Which API the items were loaded through. */
+  source?: "graphql" | "rest";
+  /** Epoch milliseconds when the GraphQL-only details were last loaded. */
+  detailsFetchedAt?: number;
+}
+
+/** Receives the items loaded so far after each page that has more to follow. */
+export type ListProgressCallback<T> = (progress: ListResult<T>) => void;
@@ -0,0 +1,50 @@
+const DB_NAME = "repo-cleaner";
+const DB_VERSION = 3;
+
+export const STORES = {
+  queryCache: "query-cache",
+  httpCache: "http-cache",
+  auditLog: "audit-log",
+} as const;
+
+type StoreName = (typeof STORES)[keyof typeof STORES];
+
+/** Stores that generate their own keys; the rest are keyed explicitly. */
+const STORE_OPTIONS: Partial<Record<StoreName, IDBObjectStoreParameters>> = {
+  [STORES.auditLog]: { keyPath: "id", autoIncrement: true },
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/** Opens (and on first use creates or upgrades) the app's database. */
+export function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      Object.values(STORES)
+        .filter((name) => !db.objectStoreNames.contains(name))
+        .forEach((name) => db.createObjectStore(name, STORE_OPTIONS[name]));
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+/** Runs a single request against `storeName` and resolves with its result. */
+export async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest,
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
@@ -0,0 +1,167 @@
+import type { Repository } from "@/lib/github";
+import { toCsv } from "@/lib/csv";
+
+export type InventoryFormat = "csv" | "json" | "markdown";
+
+export interface InventoryField {
+  id: string;
+  label: string;
+  value: (repo: Repository) => string | number | boolean | string[] | null;
+  defaultSelected?: boolean;
+}
+
+export const INVENTORY_FIELDS: InventoryField[] = [
+  {
+    id: "full_name",
+    label: "Full name",
+    value: (r) => r.full_name,
+    defaultSelected: true,
+  },
+  { id: "name", label: "Name", value: (r) => r.name },
+  { id: "owner", label: "Owner", value: (r) => r.owner.login },
+  {
+    id: "description",
+    label: "Description",
+    value: (r) => r.description,
+    defaultSelected: true,
+  },
+  {
+    id: "html_url",
+    label: "URL",
+    value: (r) => r.html_url,
+    defaultSelected: true,
+  },
+  {
+    id: "private",
+    label: "Private",
+    value: (r) => r.private,
+    defaultSelected: true,
+  },
+  { id: "fork", label: "Fork", value: (r) => r.fork, defaultSelected: true },
+  {
+    id: "archived",
+    label: "Archived",
+    value: (r) => r.archived,
+    defaultSelected: true,
+  },
+  {
+    id: "language",
+    label: "Language",
+    value: (r) => r.language,
+    defaultSelected: true,
+  },
+  {
+    id: "stargazers_count",
+    label: "Stars",
+    value: (r) => r.stargazers_count,
+    defaultSelected: true,
+  },
+  { id: "forks_count", label: "Forks", value: (r) => r.forks_count },
+  {
+    id: "open_issues_count",
+    label: "Open issues",
+    value: (r) => r.open_issues_count ?? null,
+  },
+  {
+    id: "open_pull_requests_count",
+    label: "Open PRs",
+    value: (r) => r.open_pull_requests_count ?? null,
+  },
+  {
+    id: "size",
+    label: "Size (KB)",
+    value: (r) => r.size,
+    defaultSelected: true,
+  },
+  {
+    id: "default_branch",
+    label: "Default branch",
+    value: (r) => r.default_branch,
+  },
+  {
+    id: "default_branch_protected",
+    label: "Branch protected",
+    value: (r) => r.default_branch_protected ?? null,
+  },
+  { id: "topics", label: "Topics", value: (r) => r.topics ?? [] },
+  {
+    id: "latest_release",
+    label: "Latest release",
+    value: (r) => r.latest_release?.tag_name ?? null,
+  },
+  { id: "created_at", label: "Created", value: (r) => r.created_at },
+  {
+    id: "updated_at",
+    label: "Updated",
+    value: (r) => r.updated_at,
+    defaultSelected: true,
+  },
+  {
+    id: "pushed_at",
+    label: "Pushed",
+    value: (r) => r.pushed_at,
+    defaultSelected: true,
+  },
+  {
+    id: "last_commit_at",
+    label: "Last commit",
+    value: (r) => r.last_commit_at ?? null,
+  },
+];
+
+export const DEFAULT_INVENTORY_FIELDS = INVENTORY_FIELDS.filter(
+  (f) => f.defaultSelected,
+).map((f) => f.id);
+
+export const INVENTORY_EXTENSIONS: Record<InventoryFormat, string> = {
+  csv: "csv",
+  json: "json",
+  markdown: "md",
+};
+
+export const INVENTORY_MIME_TYPES: Record<InventoryFormat, string> = {
+  csv: "text/csv",
+  json: "application/json",
+  markdown: "text/markdown",
+};
+
+function toText(value: ReturnType<InventoryField["value"]>): string {
+  if (value === null) return "";
+  return Array.isArray(value) ? value.join(", ") : String(value);
+}
+
+function markdownCell(value: ReturnType<InventoryField["value"]>): string {
+  return toText(value).replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+/** Writes `repos` with the chosen fields, in the order the fields are listed. */
+export function formatInventory(
+  repos: Repository[],
+  fieldIds: string[],
+  format: InventoryFormat,
+): string {
+  const fields = INVENTORY_FIELDS.filter((f) => fieldIds.includes(f.id));
+  if (format === "json") {
+    return JSON.stringify(
+      repos.map((repo) =>
+        Object.fromEntries(fields.map((f) => [f.id, f.value(repo)])),
+      ),
+      null,
+      2,
+    );
+  }
+  if (format === "csv") {
+    return toCsv(
+      fields.map((f) => f.id),
+      repos.map((repo) => fields.map((f) => toText(f.value(repo)))),
+    );
+  }
+  return [
+    `| ${fields.map((f) => f.label).join(" | ")} |`,
+    `| ${fields.map(() => "---").join(" | ")} |`,
+    ...repos.map(
+      (repo) =>
+        `| ${fields.map((f) => markdownCell(f.value(repo))).join(" | ")} |`,
+    ),
+  ].join("\n");
+}
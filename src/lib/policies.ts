@@ -0,0 +1,167 @@
+import { differenceInDays } from "date-fns";
+import { parse, stringify } from "yaml";
+import { z } from "zod";
+import type { Repository } from "@/lib/github";
+import { globToRegExp } from "@/lib/protection";
+
+export type PolicyAction = "delete" | "archive";
+
+const conditionsSchema = z
+  .object({
+    fork: z.boolean(),
+    private: z.boolean(),
+    archived: z.boolean(),
+    hasDescription: z.boolean(),
+    minStars: z.number().int().nonnegative(),
+    maxStars: z.number().int().nonnegative(),
+    maxSizeKb: z.number().nonnegative(),
+    pushedOlderThanDays: z.number().int().positive(),
+    updatedOlderThanDays: z.number().int().positive(),
+    createdOlderThanDays: z.number().int().positive(),
+    language: z.string().min(1),
+    /** `*`/`?` glob, matched like a protection pattern. */
+    name: z.string().min(1),
+    topic: z.string().min(1),
+  })
+  .partial()
+  .strict()
+  .refine((conditions) => Object.keys(conditions).length > 0, {
+    message: "A policy needs at least one condition",
+  });
+
+const policySchema = z.object({
+  name: z.string().min(1),
+  action: z.enum(["delete", "archive"]),
+  enabled: z.boolean().default(true),
+  when: conditionsSchema,
+});
+
+const policyFileSchema = z.union([
+  z.object({ policies: z.array(policySchema) }),
+  z.array(policySchema).transform((policies) => ({ policies })),
+]);
+
+export type PolicyConditions = z.infer<typeof conditionsSchema>;
+export type CleanupPolicy = z.infer<typeof policySchema>;
+
+export interface PolicyMatch {
+  repo: Repository;
+  policy: CleanupPolicy;
+  action: PolicyAction;
+}
+
+export const EXAMPLE_POLICIES = `# Policies are checked in order; the first match decides the action.
+policies:
+  - name: Stale forks nobody starred
+    action: delete
+    when:
+      fork: true
+      pushedOlderThanDays: 365
+      maxStars: 0
+  - name: Undocumented private repositories
+    action: archive
+    when:
+      private: true
+      hasDescription: false
+      createdOlderThanDays: 730
+`;
+
+/**
+ * Parses a policy file written in YAML or JSON (JSON is valid YAML). Throws
+ * with a readable message when the file doesn't match the schema.
+ */
+export function parsePolicies(source: string): CleanupPolicy[] {
+  const result = policyFileSchema.safeParse(parse(source) ?? []);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.join(".");
+    throw new Error(path ? `${path}: ${issue.message}` : issue.message);
+  }
+  return result.data.policies;
+}
+
+export function serializePolicies(
+  policies: CleanupPolicy[],
+  format: "json" | "yaml",
+): string {
+  return format === "json"
+    ? JSON.stringify({ policies }, null, 2)
+    : stringify({ policies });
+}
+
+function olderThan(date: string | null | undefined, days: number, now: Date) {
+  return !!date && differenceInDays(now, new Date(date)) >= days;
+}
+
+export function matchesConditions(
+  repo: Repository,
+  when: PolicyConditions,
+  now = new Date(),
+): boolean {
+  const checks: boolean[] = [];
+  if (when.fork !== undefined) checks.push(repo.fork === when.fork);
+  if (when.private !== undefined) checks.push(repo.private === when.private);
+  if (when.archived !== undefined) {
+    checks.push(repo.archived === when.archived);
+  }
+  if (when.hasDescription !== undefined) {
+    checks.push(!!repo.description?.trim() === when.hasDescription);
+  }
+  if (when.minStars !== undefined) {
+    checks.push(repo.stargazers_count >= when.minStars);
+  }
+  if (when.maxStars !== undefined) {
+    checks.push(repo.stargazers_count <= when.maxStars);
+  }
+  if (when.maxSizeKb !== undefined) checks.push(repo.size <= when.maxSizeKb);
+  if (when.pushedOlderThanDays !== undefined) {
+    checks.push(
+      olderThan(
+        repo.pushed_at ?? repo.updated_at,
+        when.pushedOlderThanDays,
+        now,
+      ),
+    );
+  }
+  if (when.updatedOlderThanDays !== undefined) {
+    checks.push(olderThan(repo.updated_at, when.updatedOlderThanDays, now));
+  }
+  if (when.createdOlderThanDays !== undefined) {
+    checks.push(olderThan(repo.created_at, when.createdOlderThanDays, now));
+  }
+  if (when.language !== undefined) {
+    checks.push(repo.language?.toLowerCase() === when.language.toLowerCase());
+  }
+  if (when.name !== undefined) {
+    checks.push(
+      globToRegExp(when.name).test(
+        when.name.includes("/") ? repo.full_name : repo.name,
+      ),
+    );
+  }
+  if (when.topic !== undefined) {
+    const topic = when.topic.toLowerCase();
+    checks.push((repo.topics ?? []).some((t) => t.toLowerCase() === topic));
+  }
+  return checks.length > 0 && checks.every(Boolean);
+}
+
+/**
+ * Runs every enabled policy against `repos`. Each repository gets at most
+ * one action, from the first policy that matches it; archiving an already
+ * archived repository is not reported.
+ */
+export function evaluatePolicies(
+  repos: Repository[],
+  policies: CleanupPolicy[],
+  now = new Date(),
+): PolicyMatch[] {
+  const enabled = policies.filter((policy) => policy.enabled);
+  const matches: PolicyMatch[] = [];
+  for (const repo of repos) {
+    const policy = enabled.find((p) => matchesConditions(repo, p.when, now));
+    if (!policy || (policy.action === "archive" && repo.archived)) continue;
+    matches.push({ repo, policy, action: policy.action });
+  }
+  return matches;
+}
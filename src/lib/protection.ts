@@ -0,0 +1,83 @@
+import type { Repository } from "@/lib/github";
+
+export type ProtectionRuleType = "name" | "pattern" | "topic" | "stars";
+
+export interface ProtectionRule {
+  id: string;
+  type: ProtectionRuleType;
+  value: string;
+}
+
+export type ConfirmationMode = "click" | "typed";
+
+export interface SafeguardSettings {
+  confirmation: ConfirmationMode;
+  rules: ProtectionRule[];
+}
+
+export const DEFAULT_SAFEGUARDS: SafeguardSettings = {
+  confirmation: "click",
+  rules: [],
+};
+
+/** Converts a `*`/`?` glob into an anchored, case-insensitive RegExp. */
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map((char) => {
+      if (char === "*") return ".*";
+      if (char === "?") return ".";
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`, "i");
+}
+
+export function describeRule(rule: ProtectionRule): string {
+  switch (rule.type) {
+    case "name":
+      return `named ${rule.value}`;
+    case "pattern":
+      return `matches ${rule.value}`;
+    case "topic":
+      return `tagged ${rule.value}`;
+    case "stars":
+      return `${rule.value}+ stars`;
+  }
+}
+
+export function matchesRule(
+  repo: Pick<Repository, "name" | "full_name" | "topics" | "stargazers_count">,
+  rule: ProtectionRule,
+): boolean {
+  const value = rule.value.trim();
+  if (!value) return false;
+  switch (rule.type) {
+    case "name":
+      return (
+        repo.name.toLowerCase() === value.toLowerCase() ||
+        repo.full_name.toLowerCase() === value.toLowerCase()
+      );
+    case "pattern":
+      // Patterns with an owner part match full_name, otherwise just the name
+      return globToRegExp(value).test(
+        value.includes("/") ? repo.full_name : repo.name,
+      );
+    case "topic":
+      return (repo.topics ?? []).some(
+        (topic) => topic.toLowerCase() === value.toLowerCase(),
+      );
+    case "stars": {
+      const threshold = Number(value);
+      return Number.isFinite(threshold) && repo.stargazers_count >= threshold;
+    }
+  }
+}
+
+/** Returns the first rule protecting `repo`, or null when it isn't locked. */
+export function findProtection(
+  repo: Pick<Repository, "name" | "full_name" | "topics" | "stargazers_count">,
+  rules: ProtectionRule[],
+): ProtectionRule | null {
+  return rules.find((rule) => matchesRule(repo, rule)) ?? null;
+}
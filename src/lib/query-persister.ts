@@ -0,0 +1,30 @@
+import type {
+  PersistedClient,
+  Persister,
+} from "@tanstack/react-query-persist-client";
+import { STORES, withStore } from "@/lib/idb";
+
+const CLIENT_KEY = "client";
+
+/**
+ * Persists the whole query cache as one IndexedDB record, which unlike
+ * localStorage copes with accounts that have thousands of repositories.
+ */
+export function createIndexedDbPersister(): Persister {
+  return {
+    persistClient: (client: PersistedClient) =>
+      withStore(STORES.queryCache, "readwrite", (store) =>
+        store.put(client, CLIENT_KEY),
+      ),
+    restoreClient: () =>
+      withStore<PersistedClient | undefined>(
+        STORES.queryCache,
+        "readonly",
+        (store) => store.get(CLIENT_KEY),
+      ),
+    removeClient: () =>
+      withStore(STORES.queryCache, "readwrite", (store) =>
+        store.delete(CLIENT_KEY),
+      ),
+  };
+}
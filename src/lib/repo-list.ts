@@ -0,0 +1,131 @@
+import type { Repository } from "@/lib/github";
+import { parseCsvRow } from "@/lib/csv";
+
+export interface RepoListMatch {
+  entry: string;
+  repo: Repository;
+}
+
+export interface RepoListMiss {
+  entry: string;
+  /** Close names, or every owner's repository when a bare name is ambiguous. */
+  suggestions: Repository[];
+  ambiguous: boolean;
+}
+
+export interface RepoListResult {
+  matched: RepoListMatch[];
+  unmatched: RepoListMiss[];
+}
+
+const NAME_COLUMNS = ["full_name", "full name", "repository", "repo", "name"];
+const REPO_URL =
+  /^(?:https?:\/\/[^/]+\/|git@[^:]+:)([^/\s]+\/[^/\s]+?)(?:\.git)?\/?$/i;
+
+function normalizeEntry(cell: string): string {
+  const trimmed = cell.trim();
+  return REPO_URL.exec(trimmed)?.[1] ?? trimmed.replace(/^\/+|\/+$/g, "");
+}
+
+/**
+ * Reads repository names from pasted text or an uploaded CSV. Each line holds
+ * a name, `owner/name` or repository URL; when the first row is a header with
+ * a column such as `full_name`, `repository` or `name`, that column is used,
+ * otherwise the first one. Blank lines and `#` comments are skipped.
+ */
+export function parseRepoList(text: string): string[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"));
+  if (lines.length === 0) return [];
+
+  const delimiter = lines[0].includes("\t") ? "\t" : ",";
+  const rows = lines.map((line) => parseCsvRow(line, delimiter));
+  const header = rows[0].map((cell) => cell.toLowerCase());
+  const named = NAME_COLUMNS.map((name) => header.indexOf(name)).find(
+    (index) => index >= 0,
+  );
+  const column = named ?? 0;
+  const entries = (named === undefined ? rows : rows.slice(1))
+    .map((row) => normalizeEntry(row[column] ?? ""))
+    .filter(Boolean);
+  return Array.from(new Set(entries));
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function suggest(entry: string, repos: Repository[], limit = 3): Repository[] {
+  const target = entry.toLowerCase();
+  const byFullName = target.includes("/");
+  const threshold = Math.max(2, Math.floor(target.length / 3));
+  return repos
+    .map((repo) => {
+      const candidate = (byFullName ? repo.full_name : repo.name).toLowerCase();
+      const distance =
+        candidate.includes(target) || target.includes(candidate)
+          ? Math.abs(candidate.length - target.length) / 10
+          : editDistance(target, candidate);
+      return { repo, distance };
+    })
+    .filter(({ distance }) => distance <= threshold)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(({ repo }) => repo);
+}
+
+/**
+ * Matches list entries against the loaded repositories, case-insensitively.
+ * `owner/name` entries must match exactly; bare names match when only one
+ * loaded repository has that name. Everything else is reported with
+ * suggestions.
+ */
+export function matchRepoList(
+  entries: string[],
+  repos: Repository[],
+): RepoListResult {
+  const byFullName = new Map(repos.map((r) => [r.full_name.toLowerCase(), r]));
+  const byName = new Map<string, Repository[]>();
+  for (const repo of repos) {
+    const key = repo.name.toLowerCase();
+    byName.set(key, [...(byName.get(key) ?? []), repo]);
+  }
+
+  const matched: RepoListMatch[] = [];
+  const unmatched: RepoListMiss[] = [];
+  const seen = new Set<number>();
+  for (const entry of entries) {
+    const key = entry.toLowerCase();
+    const candidates = key.includes("/")
+      ? [byFullName.get(key)].filter(Boolean)
+      : (byName.get(key) ?? []);
+    if (candidates.length === 1) {
+      const [repo] = candidates;
+      if (!seen.has(repo.id)) matched.push({ entry, repo });
+      seen.add(repo.id);
+    } else if (candidates.length > 1) {
+      unmatched.push({ entry, suggestions: candidates, ambiguous: true });
+    } else {
+      unmatched.push({
+        entry,
+        suggestions: suggest(entry, repos),
+        ambiguous: false,
+      });
+    }
+  }
+  return { matched, unmatched };
+}
@@ -0,0 +1,28 @@
+import type { CachedResponse, ResponseCache } from "@/lib/github";
+import { STORES, withStore } from "@/lib/idb";
+
+/**
+ * Stores list pages with their validators in IndexedDB, keyed by
+ * `namespace` (an account id) and URL so accounts never share entries.
+ */
+export function createIndexedDbResponseCache(
+  namespace: string,
+): ResponseCache & { clear(): Promise<void> } {
+  const prefix = `${namespace} `;
+  return {
+    get: (url) =>
+      withStore<CachedResponse | undefined>(
+        STORES.httpCache,
+        "readonly",
+        (store) => store.get(prefix + url),
+      ),
+    set: (url, entry) =>
+      withStore(STORES.httpCache, "readwrite", (store) =>
+        store.put(entry, prefix + url),
+      ),
+    clear: () =>
+      withStore(STORES.httpCache, "readwrite", (store) =>
+        store.delete(IDBKeyRange.bound(prefix, `${prefix}\uffff`)),
+      ),
+  };
+}
@@ -0,0 +1,117 @@
+import { differenceInDays } from "date-fns";
+import type { Repository } from "@/lib/github";
+
+export type StalenessSignal =
+  | "inactive"
+  | "noStars"
+  | "noForks"
+  | "empty"
+  | "unmodifiedFork"
+  | "noDescription"
+  | "archived";
+
+export type StalenessWeights = Record<StalenessSignal, number>;
+
+export interface StalenessReason {
+  signal: StalenessSignal;
+  label: string;
+  /** Weighted points this signal contributed. */
+  points: number;
+}
+
+export interface StalenessScore {
+  /** 0 (keep) to 100 (almost certainly safe to delete). */
+  score: number;
+  reasons: StalenessReason[];
+}
+
+export interface StalenessContext {
+  /** Commits each fork has ahead of its upstream, keyed by repo id. */
+  forkAheadBy?: Record<number, number>;
+}
+
+export const STALENESS_SIGNALS: {
+  signal: StalenessSignal;
+  label: string;
+}[] = [
+  { signal: "inactive", label: "Time since last push" },
+  { signal: "noStars", label: "No stars" },
+  { signal: "noForks", label: "No forks" },
+  { signal: "empty", label: "Empty repository" },
+  { signal: "unmodifiedFork", label: "Fork without own commits" },
+  { signal: "noDescription", label: "No description" },
+  { signal: "archived", label: "Archived" },
+];
+
+export const DEFAULT_STALENESS_WEIGHTS: StalenessWeights = {
+  inactive: 5,
+  noStars: 2,
+  noForks: 1,
+  empty: 4,
+  unmodifiedFork: 4,
+  noDescription: 1,
+  archived: 2,
+};
+
+/** Inactivity reaches its full weight after this many days without a push. */
+const FULLY_INACTIVE_DAYS = 730;
+
+function describeAge(days: number) {
+  if (days >= 365) {
+    const years = Math.floor(days / 365);
+    return `${years} year${years === 1 ? "" : "s"}`;
+  }
+  if (days >= 30) {
+    const months = Math.floor(days / 30);
+    return `${months} month${months === 1 ? "" : "s"}`;
+  }
+  return `${days} day${days === 1 ? "" : "s"}`;
+}
+
+/**
+ * Rates how safe a repository is to delete. Each signal contributes up to its
+ * weight; the total is normalised against the sum of all weights.
+ */
+export function scoreRepository(
+  repo: Repository,
+  weights: StalenessWeights,
+  context: StalenessContext = {},
+  now: Date = new Date(),
+): StalenessScore {
+  const reasons: StalenessReason[] = [];
+  const add = (signal: StalenessSignal, label: string, factor = 1) => {
+    const points = weights[signal] * factor;
+    if (points > 0) reasons.push({ signal, label, points });
+  };
+
+  const lastPush = repo.pushed_at ?? repo.updated_at;
+  const idleDays = Math.max(0, differenceInDays(now, new Date(lastPush)));
+  if (idleDays >= 30) {
+    add(
+      "inactive",
+      `No pushes for ${describeAge(idleDays)}`,
+      Math.min(1, idleDays / FULLY_INACTIVE_DAYS),
+    );
+  }
+  if (repo.stargazers_count === 0) add("noStars", "No stars");
+  if (repo.forks_count === 0) add("noForks", "Never forked");
+  if (repo.size === 0) add("empty", "Repository is empty");
+  if (repo.fork) {
+    const aheadBy = context.forkAheadBy?.[repo.id];
+    if (aheadBy === 0) {
+      add("unmodifiedFork", "Fork with no commits ahead of upstream");
+    } else if (aheadBy === undefined) {
+      add("unmodifiedFork", "Fork (divergence from upstream unknown)", 0.5);
+    }
+  }
+  if (!repo.description?.trim()) add("noDescription", "No description");
+  if (repo.archived) add("archived", "Already archived");
+
+  const total = Object.values(weights).reduce((sum, w) => sum + w, 0);
+  const points = reasons.reduce((sum, r) => sum + r.points, 0);
+  reasons.sort((a, b) => b.points - a.points);
+  return {
+    score: total > 0 ? Math.round((points / total) * 100) : 0,
+    reasons,
+  };
+}
@@ -0,0 +1,77 @@
+export type TaskStatus = "pending" | "running" | "succeeded" | "failed";
+
+export interface TaskState<T> {
+  item: T;
+  status: TaskStatus;
+  error?: string;
+}
+
+interface RunTaskQueueOptions<T> {
+  concurrency?: number;
+  signal?: AbortSignal;
+  onUpdate?: (tasks: TaskState<T>[]) => void;
+}
+
+/**
+ * Runs `worker` over every item with at most `concurrency` tasks in flight.
+ * A failing task is recorded and the queue keeps going; aborting the signal
+ * stops new tasks from starting and leaves them as "pending".
+ */
+export async function runTaskQueue<T>(
+  items: T[],
+  worker: (item: T) => Promise<void>,
+  { concurrency = 4, signal, onUpdate }: RunTaskQueueOptions<T> = {},
+): Promise<TaskState<T>[]> {
+  const tasks: TaskState<T>[] = items.map((item) => ({
+    item,
+    status: "pending",
+  }));
+  const update = (index: number, next: Partial<TaskState<T>>) => {
+    tasks[index] = { ...tasks[index], ...next };
+    onUpdate?.([...tasks]);
+  };
+
+  let cursor = 0;
+  const runNext = async (): Promise<void> => {
+    while (cursor < tasks.length && !signal?.aborted) {
+      const index = cursor++;
+      update(index, { status: "running" });
+      try {
+        await worker(tasks[index].item);
+        update(index, { status: "succeeded" });
+      } catch (error) {
+        update(index, {
+          status: "failed",
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+  };
+
+  onUpdate?.([...tasks]);
+  const lanes = Math.max(1, Math.min(concurrency, tasks.length));
+  await Promise.all(Array.from({ length: lanes }, runNext));
+  return tasks;
+}
+
+/**
+ * Returns a wrapper that lets at most `concurrency` of the wrapped calls run
+ * at once; the rest wait their turn in call order.
+ */
+export function createLimiter(concurrency: number) {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  return async <R>(fn: () => Promise<R>): Promise<R> => {
+    if (active >= concurrency) {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+    active++;
+    try {
+      return await fn();
+    } finally {
+      active--;
+      waiting.shift()?.();
+    }
+  };
+}
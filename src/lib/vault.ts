@@ -0,0 +1,86 @@
+/** How credentials survive a page reload. */
+export type StorageMode = "plain" | "vault" | "session";
+
+export interface EncryptedVault {
+  version: 1;
+  iterations: number;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const PBKDF2_ITERATIONS = 310_000;
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): ArrayBuffer {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0)).buffer;
+}
+
+async function deriveKey(
+  passphrase: string,
+  salt: BufferSource,
+  iterations: number,
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+export async function encryptSecret(
+  secret: string,
+  passphrase: string,
+): Promise<EncryptedVault> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(secret),
+  );
+  return {
+    version: 1,
+    iterations: PBKDF2_ITERATIONS,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+/** Throws when the passphrase is wrong or the vault has been tampered with. */
+export async function decryptSecret(
+  vault: EncryptedVault,
+  passphrase: string,
+): Promise<string> {
+  const key = await deriveKey(
+    passphrase,
+    fromBase64(vault.salt),
+    vault.iterations,
+  );
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(vault.iv) },
+      key,
+      fromBase64(vault.ciphertext),
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new Error("Incorrect passphrase");
+  }
+}
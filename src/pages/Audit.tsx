@@ -0,0 +1,308 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, Download, Search, ScrollText, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AUDIT_ACTION_LABELS,
+  auditLogToCsv,
+  clearAuditLog,
+  loadAuditLog,
+  type AuditAction,
+  type AuditEntry,
+  type AuditOutcome,
+} from "@/lib/audit-log";
+import { downloadBlob } from "@/lib/backup";
+
+const OUTCOME_STYLES: Record<AuditOutcome, string> = {
+  succeeded: "border-primary/30 text-primary",
+  failed: "border-destructive/40 text-destructive",
+  simulated: "border-sky-500/50 text-sky-600 dark:text-sky-400",
+};
+
+const Audit = () => {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [accountFilter, setAccountFilter] = useState("all");
+  const [actionFilter, setActionFilter] = useState<AuditAction | "all">("all");
+  const [outcomeFilter, setOutcomeFilter] = useState<AuditOutcome | "all">(
+    "all",
+  );
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadAuditLog()
+      .then(setEntries)
+      .catch((error) => {
+        setEntries([]);
+        toast({
+          title: "Could not read the audit log",
+          description: error instanceof Error ? error.message : "Unknown error",
+          variant: "destructive",
+        });
+      });
+  }, [toast]);
+
+  const accounts = useMemo(
+    () => Array.from(new Set(entries?.map((e) => e.account))).sort(),
+    [entries],
+  );
+
+  const filtered = useMemo(() => {
+    const q = searchQuery.trim().toLowerCase();
+    return (entries ?? []).filter(
+      (entry) =>
+        (!q || entry.fullName.toLowerCase().includes(q)) &&
+        (accountFilter === "all" || entry.account === accountFilter) &&
+        (actionFilter === "all" || entry.action === actionFilter) &&
+        (outcomeFilter === "all" || entry.outcome === outcomeFilter),
+    );
+  }, [entries, searchQuery, accountFilter, actionFilter, outcomeFilter]);
+
+  const exportLog = (type: "csv" | "json") => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(
+      type === "csv"
+        ? new Blob([auditLogToCsv(filtered)], { type: "text/csv" })
+        : new Blob([JSON.stringify(filtered, null, 2)], {
+            type: "application/json",
+          }),
+      `audit-log-${date}.${type}`,
+    );
+  };
+
+  const handleClear = async () => {
+    await clearAuditLog();
+    setEntries([]);
+    toast({ title: "Audit log cleared" });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20">
+      <header className="border-b border-border/50 bg-card/80 backdrop-blur-xl sticky top-0 z-10 shadow-sm">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Button variant="outline" size="icon" asChild>
+              <Link to="/" aria-label="Back to repositories">
+                <ArrowLeft className="h-5 w-5" />
+              </Link>
+            </Button>
+            <h1 className="text-lg sm:text-2xl font-bold flex items-center gap-2">
+              <ScrollText className="h-6 w-6 text-primary" />
+              Audit log
+            </h1>
+          </div>
+          <ThemeToggle />
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Every delete, archive, visibility change and transfer made from this
+          browser, including failed and dry-run attempts. The log stays on this
+          device.
+        </p>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="relative w-full max-w-xs">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder="Filter by repository..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-10 h-9"
+            />
+          </div>
+          <Select value={accountFilter} onValueChange={setAccountFilter}>
+            <SelectTrigger className="w-[170px] h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All accounts</SelectItem>
+              {accounts.map((account) => (
+                <SelectItem key={account} value={account}>
+                  {account}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={actionFilter}
+            onValueChange={(value) =>
+              setActionFilter(value as typeof actionFilter)
+            }
+          >
+            <SelectTrigger className="w-[150px] h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All actions</SelectItem>
+              {Object.entries(AUDIT_ACTION_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={outcomeFilter}
+            onValueChange={(value) =>
+              setOutcomeFilter(value as typeof outcomeFilter)
+            }
+          >
+            <SelectTrigger className="w-[140px] h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All outcomes</SelectItem>
+              <SelectItem value="succeeded">Succeeded</SelectItem>
+              <SelectItem value="failed">Failed</SelectItem>
+              <SelectItem value="simulated">Simulated</SelectItem>
+            </SelectContent>
+          </Select>
+          <div className="ml-auto flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-9 gap-1.5"
+              disabled={filtered.length === 0}
+              onClick={() => exportLog("csv")}
+            >
+              <Download className="w-3.5 h-3.5" />
+              CSV
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-9 gap-1.5"
+              disabled={filtered.length === 0}
+              onClick={() => exportLog("json")}
+            >
+              <Download className="w-3.5 h-3.5" />
+              JSON
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-9 gap-1.5 hover:bg-destructive/10 hover:text-destructive"
+                  disabled={!entries?.length}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                  Clear
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Clear the audit log?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    All {entries?.length} entries are removed from this browser.
+                    Export them first if you need to keep a record.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={handleClear}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    Clear log
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+
+        {entries === null ? null : filtered.length === 0 ? (
+          <div className="text-center py-20 text-muted-foreground">
+            {entries.length === 0
+              ? "No actions have been recorded yet"
+              : "No entries match these filters"}
+          </div>
+        ) : (
+          <div className="rounded-lg border border-border/50 bg-card/50">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Account</TableHead>
+                  <TableHead>Repository</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Outcome</TableHead>
+                  <TableHead>Error</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filtered.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap text-muted-foreground">
+                      {format(entry.timestamp, "yyyy-MM-dd HH:mm:ss")}
+                    </TableCell>
+                    <TableCell>{entry.account}</TableCell>
+                    <TableCell
+                      className="font-mono text-xs"
+                      title={JSON.stringify(entry.snapshot, null, 2)}
+                    >
+                      {entry.fullName}
+                    </TableCell>
+                    <TableCell>
+                      {AUDIT_ACTION_LABELS[entry.action]}
+                      {entry.details?.new_owner
+                        ? ` to ${entry.details.new_owner}`
+                        : ""}
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant="outline"
+                        className={`text-xs capitalize ${OUTCOME_STYLES[entry.outcome]}`}
+                      >
+                        {entry.outcome}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-xs text-destructive">
+                      {entry.error}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Audit;
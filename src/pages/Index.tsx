@@ -1,44 +1,155 @@
-import { useState, useEffect } from "react";
+import { useEffect, useState } from "react";
+import { Outlet, useMatch } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 import { SetupPage } from "@/components/SetupPage";
 import { Dashboard } from "@/components/Dashboard";
+import { UnlockScreen } from "@/components/UnlockScreen";
 import { ThemeProvider } from "@/hooks/use-theme";
+import { useIdleTimeout } from "@/hooks/use-idle-timeout";
+import { githubKeys } from "@/hooks/use-github-queries";
+import {
+  clearAccountState,
+  getAccountId,
+  loadAccounts,
+  loadActiveAccount,
+  saveAccounts,
+  saveActiveAccount,
+  type SavedAccount,
+} from "@/lib/accounts";
+import { createIndexedDbResponseCache } from "@/lib/response-cache";
+import { decryptSecret } from "@/lib/vault";
+
+const AUTO_LOCK_MS = 15 * 60_000;
 
 const Index = () => {
-  const [credentials, setCredentials] = useState<{
-    username: string;
-    token: string;
-  } | null>(null);
+  const auditOpen = useMatch("/audit") !== null;
+  const [accounts, setAccounts] = useState<SavedAccount[]>(loadAccounts);
+  const [activeId, setActiveId] = useState<string | null>(() => {
+    // A session-only account is gone after a reload; fall back to the first
+    const stored = loadActiveAccount();
+    return accounts.some((a) => getAccountId(a) === stored)
+      ? stored
+      : accounts[0]
+        ? getAccountId(accounts[0])
+        : null;
+  });
+  // Tokens of vault and session-only accounts, keyed by account id
+  const [unlocked, setUnlocked] = useState<Record<string, string>>({});
+  const [addingAccount, setAddingAccount] = useState(false);
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    saveAccounts(accounts);
+  }, [accounts]);
 
   useEffect(() => {
-    const username = localStorage.getItem("github_username");
-    const token = localStorage.getItem("github_token");
+    saveActiveAccount(activeId);
+  }, [activeId]);
 
-    if (username && token) {
-      setCredentials({ username, token });
+  const activeAccount = accounts.find(
+    (account) => getAccountId(account) === activeId,
+  );
+  const token = activeAccount && (activeAccount.token ?? unlocked[activeId]);
+
+  const handleSetupComplete = (account: SavedAccount, token: string) => {
+    const id = getAccountId(account);
+    setAccounts((prev) => [
+      ...prev.filter((a) => getAccountId(a) !== id),
+      account,
+    ]);
+    if (account.mode !== "plain") {
+      setUnlocked((prev) => ({ ...prev, [id]: token }));
     }
-  }, []);
+    setActiveId(id);
+    setAddingAccount(false);
+  };
+
+  const handleUnlock = async (passphrase: string) => {
+    if (!activeAccount?.vault) return;
+    const token = await decryptSecret(activeAccount.vault, passphrase);
+    setUnlocked((prev) => ({ ...prev, [activeId]: token }));
+  };
+
+  const vaultIds = accounts
+    .filter((account) => account.mode === "vault")
+    .map(getAccountId);
+
+  const handleLock = () => {
+    setUnlocked((prev) =>
+      Object.fromEntries(
+        Object.entries(prev).filter(([key]) => !vaultIds.includes(key)),
+      ),
+    );
+  };
 
-  const handleSetupComplete = (username: string, token: string) => {
-    setCredentials({ username, token });
+  useIdleTimeout(
+    AUTO_LOCK_MS,
+    handleLock,
+    vaultIds.some((id) => id in unlocked),
+  );
+
+  const handleRemoveAccount = (id: string) => {
+    const remaining = accounts.filter(
+      (account) => getAccountId(account) !== id,
+    );
+    setAccounts(remaining);
+    setUnlocked((prev) => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+    clearAccountState(id);
+    queryClient.removeQueries({ queryKey: githubKeys.account(id) });
+    createIndexedDbResponseCache(id).clear();
+    if (activeId === id) {
+      setActiveId(remaining[0] ? getAccountId(remaining[0]) : null);
+    }
   };
 
   const handleLogout = () => {
-    localStorage.removeItem("github_username");
-    localStorage.removeItem("github_token");
-    setCredentials(null);
+    if (activeId) handleRemoveAccount(activeId);
   };
 
   return (
     <ThemeProvider defaultTheme="dark">
-      {credentials ? (
-        <Dashboard
-          username={credentials.username}
-          token={credentials.token}
-          onLogout={handleLogout}
-        />
-      ) : (
-        <SetupPage onSetupComplete={handleSetupComplete} />
-      )}
+      <Outlet />
+      <div className={auditOpen ? "hidden" : undefined}>
+        {addingAccount || !activeAccount ? (
+          <SetupPage
+            onSetupComplete={handleSetupComplete}
+            onCancel={
+              addingAccount && activeAccount
+                ? () => setAddingAccount(false)
+                : undefined
+            }
+          />
+        ) : token ? (
+          <Dashboard
+            key={activeId}
+            accountId={activeId}
+            username={activeAccount.username}
+            token={token}
+            apiBaseUrl={activeAccount.apiBaseUrl}
+            onLogout={handleLogout}
+            onLock={activeAccount.mode === "vault" ? handleLock : undefined}
+            accounts={accounts}
+            onSwitchAccount={setActiveId}
+            onAddAccount={() => setAddingAccount(true)}
+            onRemoveAccount={handleRemoveAccount}
+          />
+        ) : (
+          <UnlockScreen
+            key={activeId}
+            username={activeAccount.username}
+            onUnlock={handleUnlock}
+            onForget={handleLogout}
+            otherAccounts={accounts.filter(
+              (account) => account !== activeAccount,
+            )}
+            onSwitchAccount={setActiveId}
+          />
+        )}
+      </div>
     </ThemeProvider>
   );
 };